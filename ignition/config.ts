@@ -0,0 +1,20 @@
+/**
+ * Signature scheme IDs registered in the `SignatureSchemeAddressProvider`
+ */
+export type SignatureSchemeID = "BN254" | "BLS12381" | "BLS12381Compressed";
+
+// Application name passed to the signature scheme contracts when deploying the randomness stack
+export const DEFAULT_APPLICATION_NAME = "dcipher-randomness-v01";
+
+/**
+ * Fee configuration returned by `RandomnessSender.getConfig`
+ */
+export type FeeConfig = {
+  maxGasLimit: bigint;
+  gasAfterPaymentCalculation: bigint;
+  fulfillmentFlatFeeNativePPM: bigint;
+  weiPerUnitGas: bigint;
+  blsPairingCheckOverhead: bigint;
+  nativePremiumPercentage: bigint;
+  gasForCallExactCheck: bigint;
+};
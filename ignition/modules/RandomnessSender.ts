@@ -0,0 +1,39 @@
+import SignatureSchemesModule from "./SignatureSchemes";
+import SignatureSenderModule from "./SignatureSender";
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+/**
+ * Deploys RandomnessSender behind a UUPSProxy on top of the signature schemes and SignatureSender, initializes it
+ * with the deployer as admin and sets its request fee configuration
+ */
+const RandomnessSenderModule = buildModule("RandomnessSenderModule", (m) => {
+  const schemes = m.useModule(SignatureSchemesModule);
+  const { signatureSender } = m.useModule(SignatureSenderModule);
+  const admin = m.getAccount(0);
+
+  const randomnessSenderImplementation = m.contract("RandomnessSender", [], { id: "RandomnessSenderImplementation" });
+  const randomnessSenderProxy = m.contract("UUPSProxy", [randomnessSenderImplementation, "0x"], {
+    id: "RandomnessSenderProxy",
+  });
+  const randomnessSender = m.contractAt("RandomnessSender", randomnessSenderProxy);
+
+  const initialize = m.call(randomnessSender, "initialize", [signatureSender, admin]);
+  m.call(
+    randomnessSender,
+    "setConfig",
+    [
+      m.getParameter<bigint>("maxGasLimit"),
+      m.getParameter<bigint>("gasAfterPaymentCalculation"),
+      m.getParameter<bigint>("fulfillmentFlatFeeNativePPM"),
+      m.getParameter<bigint>("weiPerUnitGas"),
+      m.getParameter<bigint>("blsPairingCheckOverhead"),
+      m.getParameter<bigint>("nativePremiumPercentage"),
+      m.getParameter<bigint>("gasForCallExactCheck"),
+    ],
+    { after: [initialize] },
+  );
+
+  return { ...schemes, signatureSender, randomnessSender, randomnessSenderProxy, randomnessSenderImplementation };
+});
+
+export default RandomnessSenderModule;
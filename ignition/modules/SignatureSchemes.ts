@@ -0,0 +1,44 @@
+import { DEFAULT_APPLICATION_NAME } from "../config";
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { ZeroAddress } from "ethers";
+
+/**
+ * Deploys the signature scheme address provider and the BN254, BLS12381 and BLS12381Compressed schemes, and
+ * registers each scheme under its scheme ID. The deployer is the provider's admin.
+ */
+const SignatureSchemesModule = buildModule("SignatureSchemesModule", (m) => {
+  const bn254PublicKey = m.getParameter<string>("bn254PublicKey");
+  const bls12381PublicKey = m.getParameter<string>("bls12381PublicKey");
+  const applicationName = m.getParameter<string>("applicationName", DEFAULT_APPLICATION_NAME);
+
+  const signatureSchemeAddressProvider = m.contract("SignatureSchemeAddressProvider", [ZeroAddress]);
+
+  const bn254SignatureScheme = m.contract("BN254SignatureScheme", [bn254PublicKey, applicationName]);
+  const bls12381SignatureScheme = m.contract("BLS12381SignatureScheme", [bls12381PublicKey, applicationName]);
+  const bls12381CompressedSignatureScheme = m.contract("BLS12381CompressedSignatureScheme", [
+    bls12381PublicKey,
+    applicationName,
+  ]);
+
+  m.call(signatureSchemeAddressProvider, "updateSignatureScheme", ["BN254", bn254SignatureScheme], {
+    id: "registerBN254",
+  });
+  m.call(signatureSchemeAddressProvider, "updateSignatureScheme", ["BLS12381", bls12381SignatureScheme], {
+    id: "registerBLS12381",
+  });
+  m.call(
+    signatureSchemeAddressProvider,
+    "updateSignatureScheme",
+    ["BLS12381Compressed", bls12381CompressedSignatureScheme],
+    { id: "registerBLS12381Compressed" },
+  );
+
+  return {
+    signatureSchemeAddressProvider,
+    bn254SignatureScheme,
+    bls12381SignatureScheme,
+    bls12381CompressedSignatureScheme,
+  };
+});
+
+export default SignatureSchemesModule;
@@ -0,0 +1,22 @@
+import SignatureSchemesModule from "./SignatureSchemes";
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+/**
+ * Deploys SignatureSender behind a UUPSProxy and initializes it with the deployer as admin
+ */
+const SignatureSenderModule = buildModule("SignatureSenderModule", (m) => {
+  const { signatureSchemeAddressProvider } = m.useModule(SignatureSchemesModule);
+  const admin = m.getAccount(0);
+
+  const signatureSenderImplementation = m.contract("SignatureSender", [], { id: "SignatureSenderImplementation" });
+  const signatureSenderProxy = m.contract("UUPSProxy", [signatureSenderImplementation, "0x"], {
+    id: "SignatureSenderProxy",
+  });
+  const signatureSender = m.contractAt("SignatureSender", signatureSenderProxy);
+
+  m.call(signatureSender, "initialize", [admin, signatureSchemeAddressProvider]);
+
+  return { signatureSender, signatureSenderProxy, signatureSenderImplementation };
+});
+
+export default SignatureSenderModule;
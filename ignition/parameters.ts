@@ -0,0 +1,31 @@
+import { FeeConfig } from "./config";
+import { DeploymentParameters } from "@nomicfoundation/ignition-core";
+
+/**
+ * Parameters of the randomness stack modules
+ */
+export type RandomnessStackParameters = {
+  bn254PublicKey: string; // abi.encodePacked(x0, x1, y0, y1) of the BN254 G2 public key
+  bls12381PublicKey: string; // serialised BLS12-381 G2 public key, shared by both BLS12-381 schemes
+  applicationName?: string; // application name in the DST of every scheme, defaults to "dcipher-randomness-v01"
+  feeConfig: FeeConfig;
+};
+
+/**
+ * Lay out typed parameters as the per-module parameters expected by `ignition.deploy`
+ */
+export function toDeploymentParameters({
+  bn254PublicKey,
+  bls12381PublicKey,
+  applicationName,
+  feeConfig,
+}: RandomnessStackParameters): DeploymentParameters {
+  return {
+    SignatureSchemesModule: {
+      bn254PublicKey,
+      bls12381PublicKey,
+      ...(applicationName === undefined ? {} : { applicationName }),
+    },
+    RandomnessSenderModule: { ...feeConfig },
+  };
+}
@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8;
+
+import {FeistelShuffleOptimised} from "../randomness/FeistelShuffleOptimised.sol";
+
+/// @title MockFeistelShuffle contract
+/// @author Randamu
+/// @notice Exposes the internal FeistelShuffleOptimised functions so that they can be called off-chain
+contract MockFeistelShuffle {
+    /// @notice See {FeistelShuffleOptimised-shuffle}
+    function shuffle(uint256 x, uint256 domain, uint256 seed, uint256 rounds) external pure returns (uint256) {
+        return FeistelShuffleOptimised.shuffle(x, domain, seed, rounds);
+    }
+
+    /// @notice See {FeistelShuffleOptimised-deshuffle}
+    function deshuffle(uint256 xPrime, uint256 domain, uint256 seed, uint256 rounds) external pure returns (uint256) {
+        return FeistelShuffleOptimised.deshuffle(xPrime, domain, seed, rounds);
+    }
+}
@@ -0,0 +1,10 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8;
+
+// Imports the signature scheme contracts so that Hardhat compiles them and generates their typings,
+// allowing the TypeScript tests to deploy the full randomness stack.
+// solhint-disable no-unused-import
+import {BLS12381CompressedSignatureScheme} from
+    "bls-solidity-0.3.0/src/signature-schemes/BLS12381CompressedSignatureScheme.sol";
+import {BLS12381SignatureScheme} from "bls-solidity-0.3.0/src/signature-schemes/BLS12381SignatureScheme.sol";
+import {BN254SignatureScheme} from "bls-solidity-0.3.0/src/signature-schemes/BN254SignatureScheme.sol";
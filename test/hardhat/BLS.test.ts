@@ -1,5 +1,6 @@
 import { BLSTest, BLSTest__factory } from "../../typechain-types";
 import { BlsBn254, kyberG1ToEvm, kyberG2ToEvm, toHex } from "./helpers/crypto";
+import { buildDSTBytes } from "./helpers/randomness";
 import SVDW_TEST_VECTORS from "./vectors/svdw";
 import { expand_message_xmd } from "@noble/curves/abstract/hash-to-curve";
 import { keccak_256 } from "@noble/hashes/sha3";
@@ -148,9 +149,9 @@ describe("BLS", () => {
   it("correctly verifies a BLS sig from mcl on a RandomnessSender generated message", async () => {
     const { secretKey, pubKey } = mcl.createKeyPair();
     const msg = "0xf1340c24d522ebe58dea2f543c1935c1978858405e39cf96c0e37cc82831b483";
-    const dom =
-      "dcipher-randomness-v01-BN254G1_XMD:KECCAK-256_SVDW_RO_0x0000000000000000000000000000000000000000000000000000000000007a69_";
-    const [[msgX, msgY]] = await blsTest.test__hashToPoint(toUtf8Bytes(dom), msg);
+    const { chainId } = await ethers.provider.getNetwork();
+    const dom = buildDSTBytes("BN254", chainId);
+    const [[msgX, msgY]] = await blsTest.test__hashToPoint(dom, msg);
     const M = mcl.g1FromEvm(msgX, msgY);
     expect(M.isValid()).to.eq(true);
     // console.log('M', kyberMarshalG1(M))
@@ -177,6 +178,40 @@ describe("BLS", () => {
     expect(await blsTest.test__verifySingle(invalidSig, args.pubKey, args.M).then((ret) => ret[0])).to.eq(false);
   });
 
+  it("correctly verifies a BLS sig recovered from threshold partial signatures", async () => {
+    const { secretKey, pubKey } = mcl.createKeyPair();
+    const shares = mcl.createKeyShares(secretKey, 3, 5);
+    const msg = keccak256(toUtf8Bytes("threshold")) as `0x${string}`;
+    const [[msgX, msgY]] = await blsTest.test__hashToPoint(toUtf8Bytes(domain), msg);
+    const M = mcl.g1FromEvm(msgX, msgY);
+
+    // any 3 of the 5 nodes can produce the group signature
+    const partials = [shares[4], shares[1], shares[2]].map((share) => mcl.signPartial(M, share));
+    const signature = mcl.recoverSignature(partials, 3);
+
+    const args = mcl.toArgs(pubKey, M, signature);
+    const [isValid, callSuccess] = await blsTest.test__verifySingle(args.signature, args.pubKey, args.M);
+    expect(isValid && callSuccess).to.eq(true);
+
+    // a single partial signature does not verify against the group public key
+    const partialArgs = mcl.toArgs(pubKey, M, partials[0].signature);
+    expect(await blsTest.test__verifySingle(partialArgs.signature, args.pubKey, args.M).then((ret) => ret[0])).to.eq(
+      false,
+    );
+  });
+
+  it("correctly verifies a proof of possession from mcl", async () => {
+    const { secretKey, pubKey } = mcl.createKeyPair();
+    const proof = mcl.createProofOfPossession(secretKey, pubKey);
+    const args = mcl.proofOfPossessionToArgs(pubKey, proof);
+
+    const [M] = await blsTest.test__hashToPoint(toUtf8Bytes(BlsBn254.POP_DST), mcl.proofOfPossessionMessage(pubKey));
+    expect([M[0], M[1]]).to.deep.eq(args.M);
+
+    const [isValid, callSuccess] = await blsTest.test__verifySingle(args.proof, args.pubKey, args.M);
+    expect(isValid && callSuccess).to.eq(true);
+  });
+
   it("verifies only valid sigs", async () => {
     const round = 2;
     const roundBytes = new Uint8Array(8);
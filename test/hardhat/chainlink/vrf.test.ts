@@ -0,0 +1,149 @@
+import {
+  ChainlinkVRFCoordinatorV2_5Adapter__factory,
+  ChainlinkVRFDirectFundingConsumer__factory,
+  ChainlinkVRFSubscriptionConsumer,
+  ChainlinkVRFSubscriptionConsumer__factory,
+  ChainlinkVRFV2PlusWrapperAdapter__factory,
+} from "../../../typechain-types";
+import {
+  convertBytes32ToUint256Array,
+  encodeExtraArgsV1,
+  VRFCoordinatorClient,
+  VRFWrapperClient,
+} from "../helpers/chainlink";
+import { BlsBn254 } from "../helpers/crypto";
+import { deployRandomnessStack, RandomnessStack } from "../helpers/fixtures";
+import { LocalFulfiller } from "../helpers/fulfiller";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { keccak256, parseEther, solidityPacked, toBigInt } from "ethers";
+import { ethers } from "hardhat";
+import type { Fr, G2 } from "mcl-wasm";
+
+const CLIENT_OPTS = { timeoutMs: 10_000, pollingIntervalMs: 10 };
+
+describe("Chainlink VRF shim", () => {
+  let bls: BlsBn254;
+  let secretKey: Fr;
+  let pubKey: G2;
+  before(async () => {
+    bls = await BlsBn254.create();
+    ({ secretKey, pubKey } = bls.createKeyPair());
+  });
+
+  let admin: SignerWithAddress;
+  let stack: RandomnessStack;
+  let fulfiller: LocalFulfiller;
+  beforeEach(async () => {
+    [admin] = await ethers.getSigners();
+    stack = await deployRandomnessStack(admin, bls, pubKey);
+    fulfiller = await LocalFulfiller.create(stack.signatureSender, bls, secretKey);
+  });
+
+  it("expands randomness like convertBytes32ToUint256Array", () => {
+    const randomness = keccak256("0x1234");
+    const words = convertBytes32ToUint256Array(randomness, 3);
+    expect(words).to.have.length(3);
+    words.forEach((word, i) =>
+      expect(word).to.eq(toBigInt(keccak256(solidityPacked(["bytes32", "uint256"], [randomness, i])))),
+    );
+    expect(convertBytes32ToUint256Array(randomness)).to.deep.eq(words.slice(0, 1));
+    expect(() => convertBytes32ToUint256Array("0x1234")).to.throw("randomness must be 32 bytes");
+  });
+
+  describe("coordinator adapter", () => {
+    let client: VRFCoordinatorClient;
+    let consumer: ChainlinkVRFSubscriptionConsumer;
+    let subId: bigint;
+    beforeEach(async () => {
+      const adapter = await new ChainlinkVRFCoordinatorV2_5Adapter__factory(admin).deploy(
+        admin.address,
+        await stack.randomnessSender.getAddress(),
+      );
+      client = await VRFCoordinatorClient.create(adapter, CLIENT_OPTS);
+      consumer = await new ChainlinkVRFSubscriptionConsumer__factory(admin).deploy(0, await adapter.getAddress());
+      await consumer.createSubscription();
+      [subId] = await adapter.getActiveSubscriptionIds(0, 1);
+      await consumer.fundSubscriptionWithNative(subId, { value: parseEther("10") });
+    });
+
+    it("reports the words delivered to a consumer contract", async () => {
+      const request = await client.requestFromTransaction(await consumer.requestRandomWords(100_000));
+      expect(request.consumer).to.eq(await consumer.getAddress());
+
+      await fulfiller.fulfillAll();
+      const fulfilled = await request.wait();
+      expect(fulfilled.success).to.eq(true);
+      expect(fulfilled.randomWords).to.deep.eq(await consumer.getRandomWords(request.requestId));
+      expect(fulfilled.randomWords).to.deep.eq(
+        convertBytes32ToUint256Array(ethers.toBeHex(fulfilled.outputSeed, 32), 1),
+      );
+    });
+
+    it("reports a failed consumer callback", async () => {
+      const request = await client.requestFromTransaction(await consumer.requestRandomWords(1_000));
+      await fulfiller.fulfillAll();
+
+      const fulfilled = await request.wait();
+      expect(fulfilled.success).to.eq(false);
+      expect(await consumer.getRandomWords(request.requestId)).to.be.empty;
+    });
+
+    it("requests random words for the connected account", async () => {
+      await consumer.addConsumer(subId, admin.address);
+      const request = await client.requestRandomWords({ subId, callbackGasLimit: 100_000 });
+      expect(request.consumer).to.eq(admin.address);
+
+      await fulfiller.fulfillAll();
+      expect((await request.wait()).randomWords).to.have.length(1);
+    });
+
+    it("rejects requests the adapter cannot honour", async () => {
+      await expect(client.requestRandomWords({ subId, callbackGasLimit: 100_000, numWords: 2 })).to.be.rejectedWith(
+        "1 random word per request",
+      );
+      await expect(
+        client.requestRandomWords({
+          subId,
+          callbackGasLimit: 100_000,
+          extraArgs: encodeExtraArgsV1({ nativePayment: false }),
+        }),
+      ).to.be.rejectedWith("only support native payment");
+      await expect(client.requestRandomWords({ subId, callbackGasLimit: 100_000, extraArgs: "0x" })).to.be.rejectedWith(
+        "only support native payment",
+      );
+    });
+  });
+
+  describe("wrapper adapter", () => {
+    let client: VRFWrapperClient;
+    beforeEach(async () => {
+      const adapter = await new ChainlinkVRFV2PlusWrapperAdapter__factory(admin).deploy(
+        admin.address,
+        await stack.randomnessSender.getAddress(),
+      );
+      client = await VRFWrapperClient.create(adapter, CLIENT_OPTS);
+    });
+
+    it("reports the words delivered to a direct funding consumer", async () => {
+      const consumer = await new ChainlinkVRFDirectFundingConsumer__factory(admin).deploy(
+        await client.adapter.getAddress(),
+      );
+      await consumer.fundContractNative({ value: parseEther("10") });
+      const request = await client.requestFromTransaction(await consumer.requestRandomWords(100_000, true));
+
+      await fulfiller.fulfillAll();
+      const fulfilled = await request.wait();
+      expect(fulfilled.success).to.eq(true);
+      expect(fulfilled.randomWords).to.deep.eq(await consumer.getRandomWords(request.requestId));
+    });
+
+    it("pays for requests in native with the adapter's estimate", async () => {
+      const request = await client.requestRandomWordsInNative({ callbackGasLimit: 100_000 });
+      expect(request.consumer).to.eq(admin.address);
+
+      await fulfiller.fulfillAll();
+      expect((await request.wait()).success).to.eq(true);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { formatEnvConfig, loadEnvConfig } from "../helpers/config";
+import { BlsBn254, kyberMarshalG2 } from "../helpers/crypto";
+import type { G2 } from "mcl-wasm";
+
+const { expect } = require("chai");
+
+// (2 + u, y) is on the BN254 G2 twist but outside the prime order subgroup
+const NOT_IN_SUBGROUP = [
+  2n,
+  1n,
+  7292567877523311580221095596750716176434782432868683424513645834767876293070n,
+  19659275751359636165940301690575149581329631496732780143538578556285923319774n,
+];
+
+describe("env config", () => {
+  let bls: BlsBn254;
+  let pubKey: G2;
+  let env: Record<string, string>;
+  before(async () => {
+    bls = await BlsBn254.create();
+    ({ pubKey } = bls.createKeyPair());
+  });
+
+  beforeEach(() => {
+    const [x0, x1, y0, y1] = bls.serialiseG2Point(pubKey);
+    env = {
+      PRIVATE_KEY: "",
+      RPC_URL: "http://localhost:8545",
+      RANDAMU_CREATE2_FACTORY_CONTRACT_ADDRESS: "",
+      IS_UPGRADE: "false",
+      BLS_PUBLIC_KEY_X0: x0.toString(),
+      BLS_PUBLIC_KEY_X1: x1.toString(),
+      BLS_PUBLIC_KEY_Y0: y0.toString(),
+      BLS_PUBLIC_KEY_Y1: y1.toString(),
+      MAX_GAS_LIMIT: "500000",
+      GAS_AFTER_PAYMENT_CALCULATION: "400000",
+      FULFILLMENT_FLAT_FEE_NATIVE_PPM: "100000",
+      WEI_PER_UNIT_GAS: "3000000",
+      BLS_PAIRING_CHECK_OVERHEAD: "800000",
+      NATIVE_PREMIUM_PERCENTAGE: "10",
+      GAS_FOR_CALL_EXACT_CHECK: "5000",
+    };
+  });
+
+  function setPublicKey([x0, x1, y0, y1]: bigint[]) {
+    env.BLS_PUBLIC_KEY_X0 = x0.toString();
+    env.BLS_PUBLIC_KEY_X1 = x1.toString();
+    env.BLS_PUBLIC_KEY_Y0 = y0.toString();
+    env.BLS_PUBLIC_KEY_Y1 = y1.toString();
+  }
+
+  it("parses the values from .env.example", () => {
+    const config = loadEnvConfig(bls, env);
+    expect(config.rpcUrl).to.equal("http://localhost:8545");
+    expect(config.privateKey).to.equal(undefined);
+    expect(config.isUpgrade).to.equal(false);
+    expect(config.feeConfig).to.deep.equal({
+      maxGasLimit: 500_000n,
+      gasAfterPaymentCalculation: 400_000n,
+      fulfillmentFlatFeeNativePPM: 100_000n,
+      weiPerUnitGas: 3_000_000n,
+      blsPairingCheckOverhead: 800_000n,
+      nativePremiumPercentage: 10n,
+      gasForCallExactCheck: 5000n,
+    });
+    expect(config.blsPublicKey.g2.isEqual(pubKey)).to.equal(true);
+    expect(config.blsPublicKey.kyberHex).to.equal(kyberMarshalG2(pubKey));
+    expect(formatEnvConfig(config)).to.contain(kyberMarshalG2(pubKey));
+  });
+
+  it("range-checks the fee parameters", () => {
+    env.MAX_GAS_LIMIT = "4294967296";
+    env.WEI_PER_UNIT_GAS = "0.003";
+    env.NATIVE_PREMIUM_PERCENTAGE = "155";
+    expect(() => loadEnvConfig(bls, env))
+      .to.throw("MAX_GAS_LIMIT must be at most 4294967295")
+      .and.to.have.property("message")
+      .that.contains('WEI_PER_UNIT_GAS must be an unsigned integer, got "0.003"')
+      .and.contains("NATIVE_PREMIUM_PERCENTAGE must be below 155");
+
+    env.MAX_GAS_LIMIT = "4294967295";
+    env.WEI_PER_UNIT_GAS = "3000000";
+    env.NATIVE_PREMIUM_PERCENTAGE = "154";
+    expect(loadEnvConfig(bls, env).feeConfig.nativePremiumPercentage).to.equal(154n);
+  });
+
+  it("reports missing variables", () => {
+    delete env.BLS_PUBLIC_KEY_Y1;
+    env.GAS_FOR_CALL_EXACT_CHECK = " ";
+    expect(() => loadEnvConfig(bls, env))
+      .to.throw("BLS_PUBLIC_KEY_Y1 is not set")
+      .and.to.have.property("message")
+      .that.contains("GAS_FOR_CALL_EXACT_CHECK is not set");
+  });
+
+  it("rejects public keys off the curve or outside the subgroup", () => {
+    const [x0, x1, y0, y1] = bls.serialiseG2Point(pubKey);
+    setPublicKey([x0, x1, y0, y1 + 1n]);
+    expect(() => loadEnvConfig(bls, env)).to.throw("not on the BN254 G2 curve");
+
+    setPublicKey(NOT_IN_SUBGROUP);
+    expect(() => loadEnvConfig(bls, env)).to.throw("not in the BN254 G2 subgroup");
+
+    setPublicKey([BlsBn254.FIELD_ORDER, x1, y0, y1]);
+    expect(() => loadEnvConfig(bls, env)).to.throw("BLS_PUBLIC_KEY_X0 must be at most");
+  });
+
+  it("validates the optional deployment variables", () => {
+    env.PRIVATE_KEY = "0x1234";
+    env.RANDAMU_CREATE2_FACTORY_CONTRACT_ADDRESS = "0xnotanaddress";
+    env.IS_UPGRADE = "yes";
+    expect(() => loadEnvConfig(bls, env))
+      .to.throw("PRIVATE_KEY must be a 0x-prefixed 32 byte hex string")
+      .and.to.have.property("message")
+      .that.contains("RANDAMU_CREATE2_FACTORY_CONTRACT_ADDRESS must be an address")
+      .and.contains('IS_UPGRADE must be "true" or "false"');
+  });
+});
@@ -1,4 +1,7 @@
 import { BlsBn254, serialiseG2Point } from "../helpers/crypto";
+import { toUtf8Bytes } from "ethers";
+import * as mcl from "mcl-wasm";
+import type { G1, G2 } from "mcl-wasm";
 
 const { expect } = require("chai");
 
@@ -25,3 +28,196 @@ describe("bls-bn254", () => {
     expect(serialiseG2Point(point)).to.deep.equal(expectedPK);
   });
 });
+
+describe("bls-bn254 threshold", () => {
+  const domain = "dcipher-randomness-v01-BN254G1_XMD:KECCAK-256_SVDW_RO_";
+
+  it("recovers the group signature from any threshold of partial signatures", async () => {
+    const bls = await BlsBn254.create();
+    const { secretKey, pubKey } = bls.createKeyPair();
+    const shares = bls.createKeyShares(secretKey, 3, 5);
+    const M = bls.hashToPoint(toUtf8Bytes(domain), toUtf8Bytes("threshold"));
+    const { signature: groupSignature } = bls.sign(M, secretKey);
+
+    const partials = shares.map((share) => bls.signPartial(M, share));
+    for (const subset of [
+      [0, 1, 2],
+      [4, 2, 0],
+      [1, 3, 4],
+    ]) {
+      const recovered = bls.recoverSignature(
+        subset.map((i) => partials[i]),
+        3,
+      );
+      expect(recovered.isEqual(groupSignature)).to.be.equal(true);
+      expect(bls.verify(M, pubKey, recovered)).to.be.equal(true);
+    }
+  });
+
+  it("produces share public keys matching the share secret keys", async () => {
+    const bls = await BlsBn254.create();
+    const { secretKey } = bls.createKeyPair();
+    const M = bls.hashToPoint(toUtf8Bytes(domain), toUtf8Bytes("share"));
+    for (const share of bls.createKeyShares(secretKey, 2, 3)) {
+      const { signature } = bls.signPartial(M, share);
+      expect(bls.verify(M, share.pubKey, signature)).to.be.equal(true);
+    }
+  });
+
+  it("identifies invalid partial signatures and recovers from the valid ones", async () => {
+    const bls = await BlsBn254.create();
+    const { secretKey, pubKey } = bls.createKeyPair();
+    const shares = bls.createKeyShares(secretKey, 3, 5);
+    const M = bls.hashToPoint(toUtf8Bytes(domain), toUtf8Bytes("partials"));
+    const other = bls.hashToPoint(toUtf8Bytes(domain), toUtf8Bytes("other"));
+
+    const partials = shares.map((share) => bls.signPartial(M, share));
+    // node 2 signs the wrong message, node 4 claims node 5's index
+    partials[1] = bls.signPartial(other, shares[1]);
+    partials[3] = { index: 5, signature: partials[3].signature };
+
+    expect(bls.verifyPartial(M, shares[0], partials[0])).to.be.equal(true);
+    expect(bls.verifyPartial(M, shares[1], partials[1])).to.be.equal(false);
+    expect(bls.findInvalidPartials(M, shares, partials)).to.deep.equal([2, 5]);
+
+    const { signature, invalidIndices } = bls.recoverVerifiedSignature(M, shares, partials, 3);
+    expect(invalidIndices).to.deep.equal([2, 5]);
+    expect(bls.verify(M, pubKey, signature)).to.be.equal(true);
+
+    expect(() => bls.recoverVerifiedSignature(M, shares, partials.slice(0, 3), 3)).to.throw(
+      "not enough valid partial signatures",
+    );
+  });
+
+  it("rejects too few or duplicate partial signatures", async () => {
+    const bls = await BlsBn254.create();
+    const { secretKey } = bls.createKeyPair();
+    const shares = bls.createKeyShares(secretKey, 2, 3);
+    const M = bls.hashToPoint(toUtf8Bytes(domain), toUtf8Bytes("reject"));
+    const partial = bls.signPartial(M, shares[0]);
+
+    expect(() => bls.recoverSignature([partial], 2)).to.throw("not enough partial signatures");
+    expect(() => bls.recoverSignature([partial, partial], 2)).to.throw("duplicate partial signature index");
+    expect(() => bls.createKeyShares(secretKey, 4, 3)).to.throw("invalid threshold");
+  });
+});
+
+describe("bls-bn254 batch verification", () => {
+  const domain = "dcipher-randomness-v01-BN254G1_XMD:KECCAK-256_SVDW_RO_";
+
+  it("verifies a batch of valid signatures", async () => {
+    const bls = await BlsBn254.create();
+    const { secretKey, pubKey } = bls.createKeyPair();
+    const batch = Array.from({ length: 16 }, (_, i) =>
+      bls.sign(bls.hashToPoint(toUtf8Bytes(domain), toUtf8Bytes(`round ${i}`)), secretKey),
+    );
+
+    expect(bls.batchVerify(pubKey, batch)).to.be.equal(true);
+    expect(bls.batchVerify(pubKey, [])).to.be.equal(true);
+    expect(bls.findInvalidSignatures(pubKey, batch)).to.deep.equal([]);
+  });
+
+  it("pinpoints the invalid signatures in a failing batch", async () => {
+    const bls = await BlsBn254.create();
+    const { secretKey, pubKey } = bls.createKeyPair();
+    const { secretKey: otherSecretKey } = bls.createKeyPair();
+    const batch = Array.from({ length: 13 }, (_, i) =>
+      bls.sign(bls.hashToPoint(toUtf8Bytes(domain), toUtf8Bytes(`round ${i}`)), secretKey),
+    );
+    batch[3] = bls.sign(batch[3].M, otherSecretKey);
+    batch[11] = { M: batch[11].M, signature: batch[10].signature };
+
+    expect(bls.batchVerify(pubKey, batch)).to.be.equal(false);
+    expect(bls.findInvalidSignatures(pubKey, batch)).to.deep.equal([3, 11]);
+  });
+
+  it("does not accept signatures that cancel each other out", async () => {
+    const bls = await BlsBn254.create();
+    const { secretKey, pubKey } = bls.createKeyPair();
+    const [a, b] = ["a", "b"].map((m) => bls.sign(bls.hashToPoint(toUtf8Bytes(domain), toUtf8Bytes(m)), secretKey));
+    // the sum of the two signatures is unchanged, but neither is individually valid
+    const offset = bls.hashToPoint(toUtf8Bytes(domain), toUtf8Bytes("offset"));
+    const tampered = [
+      { M: a.M, signature: bls.aggregate(a.signature, offset) as G1 },
+      { M: b.M, signature: bls.aggregate(b.signature, mcl.neg(offset)) as G1 },
+    ];
+
+    expect(bls.batchVerify(pubKey, tampered)).to.be.equal(false);
+    expect(bls.findInvalidSignatures(pubKey, tampered)).to.deep.equal([0, 1]);
+  });
+});
+
+describe("bls-bn254 aggregate verification", () => {
+  const domain = "dcipher-randomness-v01-BN254G1_XMD:KECCAK-256_SVDW_RO_";
+
+  it("verifies n signers on the same message", async () => {
+    const bls = await BlsBn254.create();
+    const M = bls.hashToPoint(toUtf8Bytes(domain), toUtf8Bytes("same message"));
+    const keyPairs = Array.from({ length: 4 }, () => bls.createKeyPair());
+    const pubKeys = keyPairs.map(({ pubKey }) => pubKey);
+    const signatures = keyPairs.map(({ secretKey }) => bls.sign(M, secretKey).signature);
+
+    const aggregate = bls.aggregateSameMessage(pubKeys, signatures);
+    expect(bls.verify(M, aggregate.pubKey, aggregate.signature)).to.be.equal(true);
+    expect(bls.aggregateVerifySameMessage(M, pubKeys, aggregate.signature)).to.be.equal(true);
+    expect(bls.aggregateVerifySameMessage(M, pubKeys.slice(1), aggregate.signature)).to.be.equal(false);
+  });
+
+  it("rejects a rogue public key on the same message", async () => {
+    const bls = await BlsBn254.create();
+    const M = bls.hashToPoint(toUtf8Bytes(domain), toUtf8Bytes("rogue"));
+    const honest = bls.createKeyPair();
+    const attacker = bls.createKeyPair();
+    // rogue = pk_attacker - pk_honest, so that naively pk_honest + rogue = pk_attacker
+    const rogue = mcl.sub(attacker.pubKey, honest.pubKey);
+    rogue.normalize();
+    const forged = bls.sign(M, attacker.secretKey).signature;
+
+    const naivePubKey = bls.aggregate(honest.pubKey, rogue) as G2;
+    expect(bls.verify(M, naivePubKey, forged)).to.be.equal(true);
+    expect(bls.aggregateVerifySameMessage(M, [honest.pubKey, rogue], forged)).to.be.equal(false);
+  });
+
+  it("verifies distinct (public key, message) pairs", async () => {
+    const bls = await BlsBn254.create();
+    const keyPairs = Array.from({ length: 3 }, () => bls.createKeyPair());
+    const messages = keyPairs.map((_, i) => bls.hashToPoint(toUtf8Bytes(domain), toUtf8Bytes(`committee ${i}`)));
+    const signature = keyPairs
+      .map(({ secretKey }, i) => bls.sign(messages[i], secretKey).signature)
+      .reduce((acc, sig) => bls.aggregate(acc, sig) as G1);
+    const pairs = keyPairs.map(({ pubKey }, i) => ({ pubKey, M: messages[i] }));
+
+    expect(bls.aggregateVerify(pairs, signature)).to.be.equal(true);
+    expect(bls.aggregateVerify([pairs[0], pairs[2], pairs[1]], signature)).to.be.equal(true);
+    expect(bls.aggregateVerify(pairs.slice(1), signature)).to.be.equal(false);
+    expect(
+      bls.aggregateVerify([pairs[0], { pubKey: pairs[1].pubKey, M: messages[0] }, pairs[2]], signature),
+    ).to.be.equal(false);
+  });
+});
+
+describe("bls-bn254 proof of possession", () => {
+  it("verifies a proof of possession for the matching public key only", async () => {
+    const bls = await BlsBn254.create();
+    const { secretKey, pubKey } = bls.createKeyPair();
+    const other = bls.createKeyPair();
+    const proof = bls.createProofOfPossession(secretKey, pubKey);
+
+    expect(bls.verifyProofOfPossession(pubKey, proof)).to.be.equal(true);
+    expect(bls.verifyProofOfPossession(other.pubKey, proof)).to.be.equal(false);
+    expect(bls.verifyProofOfPossession(pubKey, bls.createProofOfPossession(other.secretKey, pubKey))).to.be.equal(
+      false,
+    );
+  });
+
+  it("is not interchangeable with a signature on the encoded public key", async () => {
+    const bls = await BlsBn254.create();
+    const { secretKey, pubKey } = bls.createKeyPair();
+    const message = bls.proofOfPossessionMessage(pubKey);
+    const M = bls.hashToPoint(toUtf8Bytes("dcipher-randomness-v01-BN254G1_XMD:KECCAK-256_SVDW_RO_"), message);
+    const { signature } = bls.sign(M, secretKey);
+
+    expect(message.length).to.be.equal(128);
+    expect(bls.verifyProofOfPossession(pubKey, signature)).to.be.equal(false);
+  });
+});
@@ -0,0 +1,177 @@
+import { BlsBn254 } from "../helpers/crypto";
+import {
+  buildAddressBook,
+  readFoundryBroadcasts,
+  readIgnitionDeployments,
+  readImplementation,
+  renderAddressBookModule,
+} from "../helpers/deployment";
+import { deployRandomnessStack } from "../helpers/fixtures";
+import { expect } from "chai";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { ethers } from "hardhat";
+import { tmpdir } from "os";
+import { join } from "path";
+
+const address = (n: number) => ethers.getAddress(`0x${n.toString(16).padStart(40, "0")}`);
+const hash = (n: number) => `0x${n.toString(16).padStart(64, "0")}`;
+
+function create(contractName: string, n: number, args: unknown[] = []) {
+  return { hash: hash(n), transactionType: "CREATE", contractName, contractAddress: address(n), arguments: args };
+}
+
+function receipt(n: number, blockNumber: number) {
+  return { transactionHash: hash(n), blockNumber: `0x${blockNumber.toString(16)}` };
+}
+
+describe("address book", () => {
+  let root: string;
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), "address-book-"));
+
+    const chainDir = join(root, "broadcast", "Deploy.s.sol", "84532");
+    mkdirSync(join(chainDir, "dry-run"), { recursive: true });
+    const first = {
+      transactions: [
+        create("SignatureSender", 1),
+        create("UUPSProxy", 2, [address(1), "0x"]),
+        create("BN254SignatureScheme", 3),
+        { hash: hash(4), transactionType: "CALL", contractName: "SignatureSender", contractAddress: address(2) },
+      ],
+      receipts: [receipt(1, 10), receipt(2, 11), receipt(3, 12), receipt(4, 13)],
+    };
+    const second = {
+      transactions: [create("BN254SignatureScheme", 5), { ...create("RandomnessSender", 6), hash: null }],
+      receipts: [receipt(5, 20)],
+    };
+    writeFileSync(join(chainDir, "run-1000.json"), JSON.stringify(first));
+    writeFileSync(join(chainDir, "run-2000.json"), JSON.stringify(second));
+    writeFileSync(join(chainDir, "run-latest.json"), JSON.stringify(second));
+    writeFileSync(join(chainDir, "dry-run", "run-3000.json"), JSON.stringify(second));
+
+    const ignitionDir = join(root, "ignition", "deployments", "chain-31337");
+    mkdirSync(ignitionDir, { recursive: true });
+    const journal = [
+      { chainId: 31337, type: "DEPLOYMENT_INITIALIZE" },
+      ...deployment("RandomnessSenderModule#RandomnessSenderImplementation", "RandomnessSender", [], 7, 1),
+      ...deployment("RandomnessSenderModule#RandomnessSenderProxy", "UUPSProxy", [address(7), "0x"], 8, 2),
+      {
+        type: "CONTRACT_AT_EXECUTION_STATE_INITIALIZE",
+        futureId: "RandomnessSenderModule#RandomnessSender",
+        contractName: "RandomnessSender",
+        contractAddress: address(8),
+      },
+    ];
+    writeFileSync(join(ignitionDir, "journal.jsonl"), journal.map((entry) => JSON.stringify(entry)).join("\n"));
+  });
+
+  afterEach(() => rmSync(root, { recursive: true, force: true }));
+
+  function deployment(futureId: string, contractName: string, constructorArgs: unknown[], n: number, block: number) {
+    return [
+      { type: "DEPLOYMENT_EXECUTION_STATE_INITIALIZE", futureId, contractName, constructorArgs },
+      { type: "TRANSACTION_CONFIRM", futureId, hash: hash(n), receipt: { blockNumber: block } },
+      { type: "DEPLOYMENT_EXECUTION_STATE_COMPLETE", futureId, result: { type: "SUCCESS", address: address(n) } },
+    ];
+  }
+
+  it("reads broadcasts, skipping dry runs, run-latest and unsent transactions", () => {
+    const records = readFoundryBroadcasts(join(root, "broadcast"));
+    expect(records.map((r) => [r.contractName, r.address, r.blockNumber])).to.deep.eq([
+      ["SignatureSender", address(1), 10],
+      ["UUPSProxy", address(2), 11],
+      ["BN254SignatureScheme", address(3), 12],
+      ["BN254SignatureScheme", address(5), 20],
+    ]);
+    expect(records.every((r) => r.chainId === 84532)).to.eq(true);
+  });
+
+  it("reads successful deployments from Ignition journals", () => {
+    const records = readIgnitionDeployments(join(root, "ignition", "deployments"));
+    expect(records.map((r) => [r.contractName, r.address, r.chainId, r.transactionHash])).to.deep.eq([
+      ["RandomnessSender", address(7), 31337, hash(7)],
+      ["UUPSProxy", address(8), 31337, hash(8)],
+    ]);
+  });
+
+  it("resolves proxies and keeps the deployment history per chain", async () => {
+    const book = await buildAddressBook([
+      ...readFoundryBroadcasts(join(root, "broadcast")),
+      ...readIgnitionDeployments(join(root, "ignition", "deployments")),
+    ]);
+
+    expect(Object.keys(book)).to.deep.eq(["BN254SignatureScheme", "RandomnessSender", "SignatureSender"]);
+    expect(book.SignatureSender["84532"]).to.include({ address: address(2), implementation: address(1) });
+    expect(book.RandomnessSender["31337"]).to.include({ address: address(8), implementation: address(7) });
+
+    const scheme = book.BN254SignatureScheme["84532"];
+    expect(scheme.address).to.eq(address(5));
+    expect(scheme.history.map((d) => d.address)).to.deep.eq([address(3)]);
+
+    const module = renderAddressBookModule(book);
+    expect(module).to.contain(`"address": "${address(2)}"`);
+    expect(module).to.contain("export type ContractName = keyof typeof addresses;");
+  });
+
+  it("keeps the proxy current when a new implementation is deployed for an upgrade", async () => {
+    const record = (contractName: string, n: number, block: number, constructorArgs: unknown[] = []) => ({
+      contractName,
+      address: address(n),
+      chainId: 1,
+      blockNumber: block,
+      constructorArgs,
+      source: "foundry" as const,
+      origin: "test",
+    });
+    const book = await buildAddressBook([
+      record("RandomnessSender", 1, 10),
+      record("UUPSProxy", 2, 11, [address(1), "0x"]),
+      record("RandomnessSender", 3, 20),
+    ]);
+
+    expect(book.RandomnessSender["1"]).to.include({ address: address(2), implementation: address(1) });
+    expect(book.RandomnessSender["1"].history.map((d) => d.address)).to.deep.eq([address(3)]);
+  });
+
+  it("reads the current implementation of a proxy", async () => {
+    const bls = await BlsBn254.create();
+    const [admin] = await ethers.getSigners();
+    const { randomnessSender } = await deployRandomnessStack(admin, bls, bls.createKeyPair().pubKey);
+
+    const proxy = await randomnessSender.getAddress();
+    const implementation = await readImplementation(ethers.provider, proxy);
+    expect(await ethers.provider.getCode(implementation)).to.not.eq("0x");
+
+    const book = await buildAddressBook(
+      [
+        {
+          contractName: "UUPSProxy",
+          address: proxy,
+          chainId: 31337,
+          constructorArgs: [address(1), "0x"],
+          source: "ignition",
+          origin: "test",
+        },
+      ],
+      { providers: { 31337: ethers.provider } },
+    );
+    expect(book[`UUPSProxy@${proxy}`]["31337"].implementation).to.eq(implementation);
+  });
+
+  it("keys proxies with an unknown implementation by their address", async () => {
+    const proxy = (n: number, block: number) => ({
+      contractName: "UUPSProxy",
+      address: address(n),
+      chainId: 84532,
+      blockNumber: block,
+      constructorArgs: [address(100 + n), "0x"],
+      source: "foundry" as const,
+      origin: "test",
+    });
+    const book = await buildAddressBook([proxy(1, 10), proxy(2, 11)]);
+
+    expect(Object.keys(book)).to.deep.eq([`UUPSProxy@${address(1)}`, `UUPSProxy@${address(2)}`]);
+    expect(book[`UUPSProxy@${address(1)}`]["84532"]).to.include({ address: address(1), implementation: address(101) });
+    expect(book[`UUPSProxy@${address(2)}`]["84532"].history).to.deep.eq([]);
+  });
+});
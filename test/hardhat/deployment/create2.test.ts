@@ -0,0 +1,104 @@
+import { Factory, Factory__factory, SignatureSchemeAddressProvider__factory } from "../../../typechain-types";
+import { BlsBn254 } from "../helpers/crypto";
+import {
+  Create2Plan,
+  findDeployed,
+  findSaltCollisions,
+  planRandomnessStack,
+  StackPlanOpts,
+  verifyPlan,
+} from "../helpers/deployment";
+import { publicKeyBytes } from "../helpers/fixtures";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+
+// BLS12-381 G2 public key from the Foundry `Deployment` base test
+const BLS12381_PUBLIC_KEY =
+  "0x0eb3c62c162b4bf3da2df034c4ebf8f753c929a6e2424269f41558c8d3c6358a38bc199199a3cc4f3c275525f72e6ed00ea36aa928f4d6a58765ac61398baed7d1b195b71f7de3714fb0b87edf71792313a5b1650264cbfff03f78bafbd6590001d140f45a64fcf285f51f2e55ed11432e3829cd027dc2e6adb4a2fbc99e2aac0faf0aef517b525a3d5d80aa6cc41acd12c785bd8662d22ce36627e15ea5de6d3cb642be582410da7c95dc1ffc9bff902f05fff594f4956b2137cde3f172c71d";
+
+describe("CREATE2 planner", () => {
+  let bls: BlsBn254;
+  let admin: SignerWithAddress;
+  let factory: Factory;
+  let opts: StackPlanOpts;
+  before(async () => {
+    bls = await BlsBn254.create();
+  });
+
+  beforeEach(async () => {
+    [admin] = await ethers.getSigners();
+    factory = await new Factory__factory(admin).deploy();
+    opts = {
+      chainId: 31337n,
+      factoryAddress: await factory.getAddress(),
+      admin: admin.address,
+      bn254PublicKey: publicKeyBytes(bls, bls.createKeyPair().pubKey),
+      bls12381PublicKey: BLS12381_PUBLIC_KEY,
+      saltNamespace: "randomness-v0.0.10",
+    };
+  });
+
+  it("plans addresses that match the factory and the deployed contracts", async () => {
+    const plan = planRandomnessStack(opts);
+    expect(await verifyPlan(plan, factory)).to.be.empty;
+    expect(await findDeployed(plan, admin)).to.be.empty;
+
+    for (const { salt, creationCode } of plan.deployments) {
+      await factory.deploy(salt, creationCode);
+    }
+    expect(await findDeployed(plan, admin)).to.deep.eq(plan.deployments.map((d) => d.name));
+
+    const provider = plan.deployments.find((d) => d.name === "SignatureSchemeAddressProvider")!;
+    const deployedProvider = SignatureSchemeAddressProvider__factory.connect(provider.address, admin);
+    expect(await deployedProvider.hasRole(await deployedProvider.ADMIN_ROLE(), admin.address)).to.eq(true);
+  });
+
+  it("reports planned addresses that do not match the factory", async () => {
+    const plan: Create2Plan = planRandomnessStack(opts);
+    plan.deployments[0] = { ...plan.deployments[0], address: ethers.ZeroAddress };
+    expect(await verifyPlan(plan, factory)).to.deep.eq([
+      {
+        name: "SignatureSchemeAddressProvider",
+        planned: ethers.ZeroAddress,
+        computed: planRandomnessStack(opts).deployments[0].address,
+      },
+    ]);
+  });
+
+  it("compares addresses regardless of their case", async () => {
+    const plan = planRandomnessStack(opts);
+    const lowercase: Create2Plan = {
+      ...plan,
+      factoryAddress: plan.factoryAddress.toLowerCase(),
+      deployments: plan.deployments.map((d) => ({ ...d, address: d.address.toLowerCase() })),
+    };
+    expect(await verifyPlan(lowercase, factory)).to.be.empty;
+  });
+
+  it("detects salts that collide across chains", () => {
+    const base = planRandomnessStack(opts);
+    expect(findSaltCollisions([base, planRandomnessStack({ ...opts, chainId: 84532n })])).to.be.empty;
+
+    // a different BN254 key moves the scheme on one chain only
+    const otherKey = planRandomnessStack({
+      ...opts,
+      chainId: 84532n,
+      bn254PublicKey: publicKeyBytes(bls, bls.createKeyPair().pubKey),
+    });
+    const [collision] = findSaltCollisions([base, otherKey]);
+    expect(collision.kind).to.eq("creationCode");
+    expect(collision.deployments.map((d) => [d.chainId, d.name])).to.deep.eq([
+      [31337n, "BN254SignatureScheme"],
+      [84532n, "BN254SignatureScheme"],
+    ]);
+
+    // reusing a salt for two contracts
+    const reused = planRandomnessStack({
+      ...opts,
+      chainId: 84532n,
+      salts: { RandomnessSenderImplementation: base.deployments[4].salt },
+    });
+    expect(findSaltCollisions([base, reused]).map((c) => c.kind)).to.include("contracts");
+  });
+});
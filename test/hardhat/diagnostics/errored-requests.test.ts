@@ -0,0 +1,182 @@
+import {
+  MockRandomnessReceiver__factory,
+  MockRevertingRandomnessReceiver__factory,
+  RandomnessSender__factory,
+  SignatureSender__factory,
+} from "../../../typechain-types";
+import { BlsBn254 } from "../helpers/crypto";
+import { ErroredRequestDiagnoser, resetNetwork, writeErroredRequestReports } from "../helpers/diagnostics";
+import { deployRandomnessStack, RandomnessStack } from "../helpers/fixtures";
+import { LocalFulfiller, signMessageHash } from "../helpers/fulfiller";
+import { RandomnessClient } from "../helpers/randomness";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { impersonateAccount, setBalance } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { BrowserProvider, toUtf8Bytes } from "ethers";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import hre, { ethers } from "hardhat";
+import { createProvider } from "hardhat/internal/core/providers/construction";
+import { JsonRpcServer } from "hardhat/internal/hardhat-network/jsonrpc/server";
+import { tmpdir } from "os";
+import { join } from "path";
+
+describe("ErroredRequestDiagnoser", () => {
+  let admin: SignerWithAddress;
+  let stack: RandomnessStack;
+  let fulfiller: LocalFulfiller;
+  let diagnoser: ErroredRequestDiagnoser;
+  let randomnessSender: string;
+  beforeEach(async () => {
+    [admin] = await ethers.getSigners();
+    const bls = await BlsBn254.create();
+    const { secretKey, pubKey } = bls.createKeyPair();
+    stack = await deployRandomnessStack(admin, bls, pubKey);
+    fulfiller = await LocalFulfiller.create(stack.signatureSender, bls, secretKey);
+    diagnoser = new ErroredRequestDiagnoser(hre, stack.signatureSender, stack.randomnessSender);
+    randomnessSender = (await stack.randomnessSender.getAddress()).toLowerCase();
+  });
+
+  it("finds the payment failure and the consumer failure it hid", async () => {
+    // neither subscription is funded, so charging for the fulfillment reverts after the consumer callback
+    const starved = await new MockRandomnessReceiver__factory(admin).deploy(randomnessSender, admin.address);
+    await starved.createSubscriptionAndFundNative();
+    await starved.rollDiceWithSubscription(1000);
+    const reverting = await new MockRevertingRandomnessReceiver__factory(admin).deploy(randomnessSender, admin.address);
+    await reverting.createSubscriptionAndFundNative();
+    await reverting.rollDiceWithSubscription(100_000);
+    await fulfiller.fulfillAll();
+
+    const [outOfGas, reverted] = await diagnoser.diagnoseAll();
+    for (const report of [outOfGas, reverted]) {
+      expect(report.callback).to.eq(await stack.randomnessSender.getAddress());
+      expect(report.insideConsumer).to.eq(false);
+      expect(report.cause).to.deep.include({
+        account: randomnessSender,
+        function: "receiveSignature(uint256,bytes)",
+        failure: "revert",
+        reason: "InsufficientBalance()",
+      });
+      expect(report.path.map((call) => call.split(" ")[0])).to.deep.eq(["CALL", "DELEGATECALL"]);
+    }
+
+    expect(outOfGas.requestId).to.eq(await starved.requestId());
+    expect(outOfGas.consumer).to.eq(await starved.getAddress());
+    expect(outOfGas.consumerFailure).to.deep.include({
+      account: (await starved.getAddress()).toLowerCase(),
+      function: "receiveRandomness(uint256,bytes32)",
+      failure: "outOfGas",
+      gasLimit: 1000,
+      gasUsed: 1000,
+    });
+    expect(outOfGas.consumerFailure!.hint).to.contain("higher callbackGasLimit");
+
+    expect(reverted.consumer).to.eq(await reverting.getAddress());
+    expect(reverted.consumerFailure).to.deep.include({ failure: "revert", reason: "revert without data" });
+
+    const root = mkdtempSync(join(tmpdir(), "diagnostics-"));
+    try {
+      const [path] = writeErroredRequestReports([outOfGas], root);
+      expect(path).to.eq(join(root, `request-${outOfGas.requestId}.json`));
+      const written = JSON.parse(readFileSync(path, "utf8"));
+      expect(written.requestId).to.eq(outOfGas.requestId.toString());
+      expect(written.cause.reason).to.eq("InsufficientBalance()");
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it("locates failures inside a consumer that receives signatures directly", async () => {
+    // a contract without `receiveSignature` requests a signature, so the SignatureSender's callback to it reverts
+    const consumer = await new MockRandomnessReceiver__factory(admin).deploy(randomnessSender, admin.address);
+    const consumerAddress = await consumer.getAddress();
+    await impersonateAccount(consumerAddress);
+    await setBalance(consumerAddress, ethers.parseEther("1"));
+    const signer = await ethers.getSigner(consumerAddress);
+    await stack.signatureSender.connect(signer).requestSignature("BN254", toUtf8Bytes("hello"), "0x");
+    await fulfiller.fulfillAll();
+
+    const [requestId] = await stack.signatureSender.getAllErroredRequestIds();
+    const report = await diagnoser.diagnose(requestId);
+    expect(report).to.deep.include({ callback: consumerAddress, consumer: consumerAddress, insideConsumer: true });
+    expect(report.cause).to.deep.include({
+      account: consumerAddress.toLowerCase(),
+      failure: "revert",
+      reason: "revert without data",
+    });
+    expect(report.consumerFailure).to.eq(undefined);
+    expect(report.path).to.have.length(1);
+  });
+
+  it("rejects requests that have not errored", async () => {
+    const request = await new RandomnessClient(stack.randomnessSender).requestDirectFunding(100_000);
+    await fulfiller.fulfillAll();
+    await expect(diagnoser.diagnose(request.requestId)).to.be.rejectedWith("has not errored");
+  });
+});
+
+describe("ErroredRequestDiagnoser on a fork", () => {
+  // a second in-process Hardhat node stands in for the remote chain, served over HTTP as `hardhat node` does
+  let server: JsonRpcServer;
+  let url: string;
+  let remote: BrowserProvider;
+  before(async () => {
+    const provider = await createProvider(hre.config, "hardhat", hre.artifacts);
+    server = new JsonRpcServer({ hostname: "127.0.0.1", port: 0, provider });
+    const { address, port } = await server.listen();
+    url = `http://${address}:${port}`;
+    remote = new BrowserProvider(provider);
+  });
+
+  after(async () => {
+    await resetNetwork(hre);
+    await server.close();
+  });
+
+  it("replays failed fulfillments on a fork of their parent block", async () => {
+    const admin = await remote.getSigner(0);
+    const bls = await BlsBn254.create();
+    const { secretKey, pubKey } = bls.createKeyPair();
+    const stack = await deployRandomnessStack(admin, bls, pubKey);
+    const randomnessSender = await stack.randomnessSender.getAddress();
+    const fulfiller = await LocalFulfiller.create(stack.signatureSender, bls, secretKey);
+    // neither subscription is funded, so charging for the fulfillment reverts after the consumer callback
+    const consumers = [];
+    for (const callbackGasLimit of [1000, 100_000]) {
+      const consumer = await new MockRandomnessReceiver__factory(admin).deploy(randomnessSender, admin.address);
+      await consumer.createSubscriptionAndFundNative();
+      await consumer.rollDiceWithSubscription(callbackGasLimit);
+      consumers.push(consumer);
+    }
+
+    // both fulfillments go in one block, so the second is only replayed after the first
+    const pending = await fulfiller.poll();
+    await remote.send("evm_setAutomine", [false]);
+    const hashes = [];
+    for (const request of pending) {
+      const signature = signMessageHash(bls, request.messageHash, secretKey);
+      hashes.push((await stack.signatureSender.fulfillSignatureRequest(request.requestId, signature)).hash);
+    }
+    await remote.send("evm_mine", []);
+    await remote.send("evm_setAutomine", [true]);
+    const { blockNumber } = (await remote.getTransactionReceipt(hashes[1]))!;
+
+    const diagnoser = new ErroredRequestDiagnoser(
+      hre,
+      SignatureSender__factory.connect(await stack.signatureSender.getAddress(), ethers.provider),
+      RandomnessSender__factory.connect(randomnessSender, ethers.provider),
+      { fork: url, batchSize: 2 },
+    );
+    const [outOfGas, paid] = await diagnoser.diagnoseAll();
+    expect([outOfGas.transactionHash, paid.transactionHash]).to.deep.eq(hashes);
+    for (const [i, report] of [outOfGas, paid].entries()) {
+      expect(report).to.deep.include({ consumer: await consumers[i].getAddress(), blockNumber, insideConsumer: false });
+      expect(report.cause).to.deep.include({
+        account: randomnessSender.toLowerCase(),
+        failure: "revert",
+        reason: "InsufficientBalance()",
+      });
+    }
+    expect(outOfGas.consumerFailure).to.deep.include({ failure: "outOfGas", gasLimit: 1000 });
+    expect(paid.consumerFailure).to.eq(undefined);
+  });
+});
@@ -0,0 +1,111 @@
+import { Factory__factory, SubscriptionAPI__factory } from "../../../typechain-types";
+import { BlsBn254 } from "../helpers/crypto";
+import {
+  AccessControlUnauthorizedAccountError,
+  BalanceInvariantViolatedError,
+  Create2EmptyBytecodeError,
+  Create2FailedDeploymentError,
+  decodeRevert,
+  decodeRevertData,
+  IndexOutOfRangeError,
+  InvalidConsumerError,
+  MustBeSubOwnerError,
+  PanicRevertError,
+  RequireRevertError,
+  UnknownRevertError,
+  withDecodedRevert,
+} from "../helpers/errors";
+import { DEFAULT_FEE_CONFIG, deployRandomnessStack, RandomnessStack } from "../helpers/fixtures";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { AbiCoder, concat, Interface, keccak256, toUtf8Bytes, ZeroHash } from "ethers";
+import { ethers } from "hardhat";
+
+describe("revert decoder", () => {
+  let admin: SignerWithAddress;
+  let other: SignerWithAddress;
+  let stack: RandomnessStack;
+  beforeEach(async () => {
+    [admin, other] = await ethers.getSigners();
+    const bls = await BlsBn254.create();
+    stack = await deployRandomnessStack(admin, bls, bls.createKeyPair().pubKey);
+  });
+
+  it("decodes SubscriptionAPI errors with their fields", async () => {
+    await expect(withDecodedRevert(stack.randomnessSender.getActiveSubscriptionIds(0, 1))).to.be.rejectedWith(
+      IndexOutOfRangeError,
+    );
+
+    await stack.randomnessSender.createSubscription();
+    const [subId] = await stack.randomnessSender.getActiveSubscriptionIds(0, 1);
+    const notOwner = await withDecodedRevert(
+      stack.randomnessSender.connect(other).addConsumer(subId, other.address),
+    ).catch((err) => err);
+    expect(notOwner).to.be.instanceOf(MustBeSubOwnerError);
+    expect(notOwner.owner).to.eq(admin.address);
+    expect(notOwner.hint).to.eq("send the transaction from the owner account");
+
+    const invalidConsumer = decodeRevert(
+      await stack.randomnessSender.removeConsumer(subId, other.address).catch((err) => err),
+    );
+    expect(invalidConsumer).to.be.instanceOf(InvalidConsumerError);
+    expect(invalidConsumer).to.deep.include({ subId, consumer: other.address });
+  });
+
+  it("decodes require strings and access control errors from the senders", async () => {
+    const tooLow = decodeRevert(await stack.randomnessSender.requestRandomness(100_000, { value: 1 }).catch((e) => e));
+    expect(tooLow).to.be.instanceOf(RequireRevertError);
+    expect(tooLow).to.deep.include({ revertString: "Fee too low", reason: 'Error("Fee too low")' });
+    expect(tooLow!.message).to.contain("estimateRequestPriceNative(callbackGasLimit, gasPrice)");
+
+    const tooHigh = decodeRevert(
+      await stack.randomnessSender
+        .requestRandomness(DEFAULT_FEE_CONFIG.maxGasLimit + 1n, { value: ethers.parseEther("10") })
+        .catch((e) => e),
+    );
+    expect(tooHigh).to.deep.include({ revertString: "Callback gasLimit too high" });
+
+    const unfulfillable = decodeRevert(await stack.signatureSender.fulfillSignatureRequest(1, "0x").catch((e) => e));
+    expect(unfulfillable).to.deep.include({ revertString: "No request with specified requestID" });
+
+    const unauthorized = decodeRevert(
+      await stack.randomnessSender
+        .connect(other)
+        .disable()
+        .catch((e) => e),
+    );
+    expect(unauthorized).to.be.instanceOf(AccessControlUnauthorizedAccountError);
+    expect(unauthorized).to.deep.include({
+      account: other.address,
+      neededRole: keccak256(toUtf8Bytes("ADMIN_ROLE")),
+    });
+  });
+
+  it("decodes Factory errors", async () => {
+    const factory = await new Factory__factory(admin).deploy();
+    expect(decodeRevert(await factory.deploy(ZeroHash, "0x").catch((e) => e))).to.be.instanceOf(
+      Create2EmptyBytecodeError,
+    );
+
+    // the constructor of the creation code reverts
+    const reverting = "0x60006000fd";
+    expect(decodeRevert(await factory.deploy(ZeroHash, reverting).catch((e) => e))).to.be.instanceOf(
+      Create2FailedDeploymentError,
+    );
+  });
+
+  it("decodes raw revert data", () => {
+    const subscriptions = new Interface(SubscriptionAPI__factory.abi);
+    const invariant = decodeRevertData(subscriptions.encodeErrorResult("BalanceInvariantViolated", [10n, 5n]));
+    expect(invariant).to.be.instanceOf(BalanceInvariantViolatedError);
+    expect(invariant).to.deep.include({ internalBalance: 10n, externalBalance: 5n });
+
+    const panic = decodeRevertData(concat(["0x4e487b71", AbiCoder.defaultAbiCoder().encode(["uint256"], [0x11])]));
+    expect(panic).to.be.instanceOf(PanicRevertError);
+    expect(panic).to.deep.include({ code: 0x11n, reason: "Panic(17)" });
+
+    expect(decodeRevertData("0x")).to.be.instanceOf(UnknownRevertError);
+    expect(decodeRevertData("0xdeadbeef")).to.be.instanceOf(UnknownRevertError);
+    expect(decodeRevert(new Error("not a revert"))).to.eq(undefined);
+  });
+});
@@ -0,0 +1,117 @@
+import { MockRandomnessReceiver, MockRandomnessReceiver__factory } from "../../../typechain-types";
+import { BlsBn254 } from "../helpers/crypto";
+import { deployRandomnessStack, RandomnessStack } from "../helpers/fixtures";
+import { AdversarialFulfiller, signMessageHash } from "../helpers/fulfiller";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { parseUnits } from "ethers";
+import { ethers } from "hardhat";
+import type { Fr, G2 } from "mcl-wasm";
+
+describe("AdversarialFulfiller", () => {
+  const callbackGasLimit = 100_000;
+  const gasPrice = parseUnits("10", "gwei");
+
+  let bls: BlsBn254;
+  let secretKey: Fr;
+  let pubKey: G2;
+  before(async () => {
+    bls = await BlsBn254.create();
+    ({ secretKey, pubKey } = bls.createKeyPair());
+  });
+
+  let admin: SignerWithAddress;
+  let requester: SignerWithAddress;
+  let stack: RandomnessStack;
+  let consumer: MockRandomnessReceiver;
+  let fulfiller: AdversarialFulfiller;
+  beforeEach(async () => {
+    [admin, requester] = await ethers.getSigners();
+    stack = await deployRandomnessStack(admin, bls, pubKey);
+    consumer = await new MockRandomnessReceiver__factory(requester).deploy(
+      await stack.randomnessSender.getAddress(),
+      requester.address,
+    );
+    fulfiller = await AdversarialFulfiller.create(stack.signatureSender, stack.randomnessSender, bls, secretKey);
+  });
+
+  async function rollDice(): Promise<bigint> {
+    const price = await stack.randomnessSender.estimateRequestPriceNative(callbackGasLimit, gasPrice);
+    await consumer.rollDiceWithDirectFunding(callbackGasLimit, { value: price, gasPrice });
+    return consumer.requestId();
+  }
+
+  it("reports an invalid signature as rejected, leaving the request in flight", async () => {
+    const requestId = await rollDice();
+    const report = await fulfiller.fulfillWithInvalidSignature(requestId);
+    expect(report.attempts[0].reverted).to.eq(true);
+    expect(report.attempts[0].revertReason).to.contain("Signature verification failed");
+    expect(report).to.include({ isInFlight: true, hasErrored: false, delivered: false });
+  });
+
+  it("reports the callback failure of a consumer that only accepts its latest request", async () => {
+    const first = await rollDice();
+    const second = await rollDice();
+    const [older, newer] = await fulfiller.fulfillOutOfOrder([first, second]);
+
+    expect(newer).to.include({ delivered: true, hasErrored: false, isInFlight: false });
+    expect(older.attempts[0]).to.include({ reverted: false, randomnessCallbackFailed: true });
+    // the randomness callback failure is not an errored signature request, so it is not retried
+    expect(older).to.include({ delivered: false, hasErrored: false, isInFlight: false });
+  });
+
+  it("delivers a late fulfillment", async () => {
+    const requestId = await rollDice();
+    const report = await fulfiller.fulfillLate(requestId, { blocks: 1000 });
+    expect(report).to.include({ delivered: true, isInFlight: false });
+    expect(await consumer.randomness()).to.not.eq(ethers.ZeroHash);
+  });
+
+  it("rejects the second of two fulfillments", async () => {
+    const requestId = await rollDice();
+    const report = await fulfiller.fulfillTwice(requestId);
+    expect(report.attempts[0]).to.include({ reverted: false, randomnessCallbackFailed: false });
+    expect(report.attempts[1].reverted).to.eq(true);
+    expect(report.attempts[1].revertReason).to.contain("No request with specified requestID");
+    expect(report).to.include({ delivered: true, hasErrored: false, isInFlight: false });
+  });
+
+  it("delivers with the estimated gas limit and leaves the request in flight when it is any lower", async () => {
+    const requestId = await rollDice();
+    const { messageHash } = await stack.signatureSender.getRequest(requestId);
+    const estimate = await stack.signatureSender.fulfillSignatureRequest.estimateGas(
+      requestId,
+      signMessageHash(bls, messageHash, secretKey),
+    );
+
+    const starved = await fulfiller.fulfillWithTightGasLimit(requestId, { gasLimit: estimate - 5000n });
+    expect(starved.attempts[0].reverted).to.eq(true);
+    expect(starved).to.include({ delivered: false, hasErrored: false, isInFlight: true });
+
+    const tight = await fulfiller.fulfillWithTightGasLimit(requestId, { gasPrice });
+    expect(tight.attempts[0]).to.include({ reverted: false, randomnessCallbackFailed: false });
+    expect(tight).to.include({ delivered: true, isInFlight: false });
+  });
+
+  it("errors a subscription request fulfilled above the gas price its balance covers", async () => {
+    await consumer.createSubscriptionAndFundNative({
+      value: await stack.randomnessSender.estimateRequestPriceNative(callbackGasLimit, gasPrice),
+    });
+    await consumer.rollDiceWithSubscription(callbackGasLimit);
+    const requestId = await consumer.requestId();
+
+    const report = await fulfiller.fulfillAroundCoveredGasPrice(requestId);
+    expect(report.coveredGasPrice > gasPrice).to.eq(true);
+    expect(report.attempts[0]).to.include({ reverted: false, signatureCallbackFailed: false });
+    expect(report.attempts[1]).to.include({ reverted: false, signatureCallbackFailed: true });
+    expect(report).to.include({ delivered: false, hasErrored: true, isInFlight: true });
+  });
+
+  it("delivers a direct funding request fulfilled above the gas price it was paid for", async () => {
+    const requestId = await rollDice();
+    const report = await fulfiller.fulfillAroundCoveredGasPrice(requestId);
+    expect(report.coveredGasPrice).to.eq(gasPrice);
+    expect(report.attempts.map((attempt) => attempt.signatureCallbackFailed)).to.deep.eq([false, false]);
+    expect(report).to.include({ delivered: true, hasErrored: false, isInFlight: false });
+  });
+});
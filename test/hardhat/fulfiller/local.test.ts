@@ -0,0 +1,105 @@
+import { BlsBn254 } from "../helpers/crypto";
+import { deployRandomnessStack, RandomnessStack } from "../helpers/fixtures";
+import { FulfillmentResult, LocalFulfiller } from "../helpers/fulfiller";
+import { RandomnessClient } from "../helpers/randomness";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { Fr, G2 } from "mcl-wasm";
+
+describe("LocalFulfiller", () => {
+  let bls: BlsBn254;
+  let secretKey: Fr;
+  let pubKey: G2;
+  before(async () => {
+    bls = await BlsBn254.create();
+    ({ secretKey, pubKey } = bls.createKeyPair());
+  });
+
+  let admin: SignerWithAddress;
+  let requester: SignerWithAddress;
+  let stack: RandomnessStack;
+  let client: RandomnessClient;
+  beforeEach(async () => {
+    [admin, requester] = await ethers.getSigners();
+    stack = await deployRandomnessStack(admin, bls, pubKey);
+    client = new RandomnessClient(stack.randomnessSender.connect(requester), {
+      verification: { bls, publicKey: pubKey },
+      timeoutMs: 10_000,
+      pollingIntervalMs: 10,
+    });
+  });
+
+  it("rejects a secret key that does not match the deployed scheme", async () => {
+    const { secretKey: otherKey } = bls.createKeyPair();
+    await expect(LocalFulfiller.create(stack.signatureSender, bls, otherKey)).to.be.rejectedWith(
+      "secret key does not match",
+    );
+  });
+
+  it("fulfills requests one at a time with step", async () => {
+    const fulfiller = await LocalFulfiller.create(stack.signatureSender, bls, secretKey);
+    expect(await fulfiller.step()).to.eq(undefined);
+
+    const request = await client.requestDirectFunding(100_000);
+    expect((await fulfiller.poll()).map((r) => r.requestId)).to.deep.eq([request.requestId]);
+
+    const result = (await fulfiller.step())!;
+    expect(result.request.requestId).to.eq(request.requestId);
+    expect(result.callbackSucceeded).to.eq(true);
+    expect((await request.wait()).verified).to.eq(true);
+    expect(await stack.signatureSender.isInFlight(request.requestId)).to.eq(false);
+    expect(fulfiller.pending()).to.be.empty;
+  });
+
+  it("fulfills pending requests in the order given by the hook", async () => {
+    const fulfiller = await LocalFulfiller.create(stack.signatureSender, bls, secretKey, {
+      hooks: { order: (pending) => pending.reverse() },
+    });
+    const first = await client.requestDirectFunding(100_000);
+    const second = await client.requestDirectFunding(100_000);
+
+    const results = await fulfiller.fulfillAll();
+    expect(results.map((r) => r.request.requestId)).to.deep.eq([second.requestId, first.requestId]);
+    expect((await first.wait()).verified).to.eq(true);
+    expect((await second.wait()).verified).to.eq(true);
+  });
+
+  it("drops requests fulfilled elsewhere instead of retrying them", async () => {
+    const fulfiller = await LocalFulfiller.create(stack.signatureSender, bls, secretKey, {
+      hooks: { order: (pending) => pending.map((request) => ({ ...request })) },
+    });
+    const other = await LocalFulfiller.create(stack.signatureSender, bls, secretKey, {
+      fromBlock: await ethers.provider.getBlockNumber(),
+    });
+    const first = await client.requestDirectFunding(100_000);
+    const second = await client.requestDirectFunding(100_000);
+    await other.step();
+
+    await expect(fulfiller.step()).to.be.rejected;
+    expect(fulfiller.pending().map((r) => r.requestId)).to.deep.eq([second.requestId]);
+    const results = await fulfiller.fulfillAll();
+    expect(results.map((r) => r.request.requestId)).to.deep.eq([second.requestId]);
+    expect((await first.wait()).verified).to.eq(true);
+    expect((await second.wait()).verified).to.eq(true);
+  });
+
+  it("fulfills requests in the background until stopped", async () => {
+    const fulfilled: FulfillmentResult[] = [];
+    const fulfiller = await LocalFulfiller.create(stack.signatureSender, bls, secretKey, {
+      pollingIntervalMs: 10,
+      hooks: { delayMs: 20, onFulfilled: (result) => fulfilled.push(result) },
+    });
+    fulfiller.start();
+    try {
+      const request = await client.requestDirectFunding(100_000);
+      expect((await request.wait()).verified).to.eq(true);
+    } finally {
+      await fulfiller.stop();
+    }
+    expect(fulfilled).to.have.length(1);
+
+    const unfulfilled = await client.requestDirectFunding(100_000);
+    expect(await stack.signatureSender.isInFlight(unfulfilled.requestId)).to.eq(true);
+  });
+});
@@ -0,0 +1,96 @@
+import { BlsBn254 } from "../helpers/crypto";
+import { deployRandomnessStack, RandomnessStack } from "../helpers/fixtures";
+import { ThresholdFulfiller } from "../helpers/fulfiller";
+import { RandomnessClient } from "../helpers/randomness";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { Fr, G2 } from "mcl-wasm";
+
+describe("ThresholdFulfiller", () => {
+  let bls: BlsBn254;
+  let secretKey: Fr;
+  let pubKey: G2;
+  before(async () => {
+    bls = await BlsBn254.create();
+    ({ secretKey, pubKey } = bls.createKeyPair());
+  });
+
+  let admin: SignerWithAddress;
+  let requester: SignerWithAddress;
+  let stack: RandomnessStack;
+  let client: RandomnessClient;
+  beforeEach(async () => {
+    [admin, requester] = await ethers.getSigners();
+    stack = await deployRandomnessStack(admin, bls, pubKey);
+    client = new RandomnessClient(stack.randomnessSender.connect(requester), {
+      verification: { bls, publicKey: pubKey },
+      timeoutMs: 10_000,
+      pollingIntervalMs: 10,
+    });
+  });
+
+  it("fulfills with a 3-of-5 committee while two nodes are offline", async () => {
+    const fulfiller = await ThresholdFulfiller.create(stack.signatureSender, bls, secretKey, 3, 5, { offline: [2, 4] });
+    const request = await client.requestDirectFunding(100_000);
+
+    const result = (await fulfiller.step())!;
+    expect(result.callbackSucceeded).to.eq(true);
+    expect((await request.wait()).verified).to.eq(true);
+    expect(fulfiller.rounds.get(request.requestId)).to.deep.eq({
+      requestId: request.requestId,
+      contributors: [1, 3, 5],
+      invalidIndices: [],
+    });
+  });
+
+  it("excludes bad partial signatures from recovery", async () => {
+    const fulfiller = await ThresholdFulfiller.create(stack.signatureSender, bls, secretKey, 3, 5, { faulty: [1] });
+    const request = await client.requestDirectFunding(100_000);
+
+    await fulfiller.step();
+    expect((await request.wait()).verified).to.eq(true);
+    expect(fulfiller.rounds.get(request.requestId)!.invalidIndices).to.deep.eq([1]);
+  });
+
+  it("keeps the request pending until enough nodes are back online", async () => {
+    const fulfiller = await ThresholdFulfiller.create(stack.signatureSender, bls, secretKey, 3, 5, {
+      offline: [1, 2],
+      faulty: [3],
+    });
+    const request = await client.requestDirectFunding(100_000);
+
+    await expect(fulfiller.step()).to.be.rejectedWith(
+      `request ${request.requestId}: not enough valid partial signatures: got 2, need 3`,
+    );
+    expect(fulfiller.pending().map((r) => r.requestId)).to.deep.eq([request.requestId]);
+    expect(await stack.signatureSender.isInFlight(request.requestId)).to.eq(true);
+
+    fulfiller.setOnline(2, true);
+    fulfiller.setFaulty(3, false);
+    await fulfiller.step();
+    expect((await request.wait()).verified).to.eq(true);
+    expect(fulfiller.rounds.get(request.requestId)!.contributors).to.deep.eq([2, 3, 4, 5]);
+  });
+
+  it("retries failed requests after the other pending requests, up to maxAttempts", async () => {
+    const fulfiller = await ThresholdFulfiller.create(stack.signatureSender, bls, secretKey, 3, 5, {
+      offline: [1, 2, 3],
+      maxAttempts: 2,
+    });
+    const first = await client.requestDirectFunding(100_000);
+    const second = await client.requestDirectFunding(100_000);
+
+    await expect(fulfiller.step()).to.be.rejectedWith(`request ${first.requestId}`);
+    expect(fulfiller.pending().map((r) => r.requestId)).to.deep.eq([second.requestId, first.requestId]);
+    await expect(fulfiller.step()).to.be.rejectedWith(`request ${second.requestId}`);
+    await expect(fulfiller.step()).to.be.rejectedWith(`request ${first.requestId}`);
+    expect(fulfiller.pending().map((r) => r.requestId)).to.deep.eq([second.requestId]);
+
+    fulfiller.setOnline(1, true);
+    await fulfiller.step();
+    expect((await second.wait()).verified).to.eq(true);
+    expect(fulfiller.pending()).to.be.empty;
+    expect(await stack.signatureSender.isInFlight(first.requestId)).to.eq(true);
+  });
+});
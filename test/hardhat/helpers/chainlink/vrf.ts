@@ -0,0 +1,230 @@
+import {
+  ChainlinkVRFCoordinatorV2_5Adapter,
+  ChainlinkVRFV2PlusWrapperAdapter,
+  RandomnessSender__factory,
+} from "../../../../typechain-types";
+import { RandomnessClient, RandomnessClientOpts } from "../randomness";
+import { MAX_NUM_WORDS, convertBytes32ToUint256Array, decodeExtraArgsV1, encodeExtraArgsV1 } from "./words";
+import { BigNumberish, BytesLike, ContractTransactionResponse, ZeroAddress, ZeroHash, toBigInt } from "ethers";
+
+export type VRFAdapter = ChainlinkVRFCoordinatorV2_5Adapter | ChainlinkVRFV2PlusWrapperAdapter;
+
+/**
+ * Mirrors `VRFV2PlusClient.RandomWordsRequest`; the key hash and confirmations are accepted but ignored by the adapter
+ */
+export type RandomWordsRequest = {
+  keyHash?: BytesLike;
+  subId: BigNumberish;
+  requestConfirmations?: number;
+  callbackGasLimit: BigNumberish;
+  numWords?: number;
+  extraArgs?: BytesLike; // defaults to `ExtraArgsV1{nativePayment: true}`
+};
+
+/**
+ * Parameters of `VRFV2PlusWrapper.requestRandomWordsInNative`
+ */
+export type WrapperRandomWordsRequest = Omit<RandomWordsRequest, "keyHash" | "subId">;
+
+/**
+ * What the Chainlink coordinator reports in `RandomWordsFulfilled`, reconstructed from the RandomnessSender and
+ * adapter events since the adapters emit no VRF events of their own
+ */
+export type RandomWordsFulfilled = {
+  requestId: bigint;
+  outputSeed: bigint; // the randomness delivered by the RandomnessSender
+  randomWords: bigint[]; // the words passed to `rawFulfillRandomWords`
+  success: boolean; // false if the consumer callback reverted, i.e. the adapter emitted `WrapperFulfillmentFailed`
+  transactionHash: string;
+  blockNumber: number;
+};
+
+/**
+ * A request accepted by an adapter
+ */
+export type VRFRequest = {
+  requestId: bigint;
+  consumer: string; // the contract `rawFulfillRandomWords` is called on
+  blockNumber: number;
+  transactionHash: string;
+  // resolves once the adapter has called back the consumer, successfully or not
+  wait: (timeoutMs?: number) => Promise<RandomWordsFulfilled>;
+};
+
+/**
+ * Follows requests made through one of the Chainlink compatible adapters, for consumers migrating from Chainlink VRF
+ */
+export abstract class VRFAdapterClient {
+  protected constructor(
+    public readonly adapter: VRFAdapter,
+    protected readonly randomness: RandomnessClient,
+  ) {}
+
+  /**
+   * Track a request made by a transaction, typically a consumer contract calling the adapter
+   * @param tx the transaction that called `requestRandomWords` or `requestRandomWordsInNative` on the adapter
+   * @returns the accepted request
+   * @throws if the transaction did not request randomness through this adapter
+   */
+  public async requestFromTransaction(tx: ContractTransactionResponse): Promise<VRFRequest> {
+    const { requestId, requester, blockNumber, transactionHash } = await this.randomness.requestFromTransaction(tx);
+    const adapterAddress = await this.adapter.getAddress();
+    if (requester.toLowerCase() !== adapterAddress.toLowerCase()) {
+      throw new Error(`request ${requestId} was made by ${requester}, not by the adapter ${adapterAddress}`);
+    }
+
+    // the adapter deletes the callback when fulfilling, so read it as of the request block
+    const { callbackAddress } = await this.adapter.s_callbacks(requestId, { blockTag: blockNumber });
+    if (callbackAddress === ZeroAddress) {
+      throw new Error(`no callback registered for request ${requestId}`);
+    }
+    return {
+      requestId,
+      consumer: callbackAddress,
+      blockNumber,
+      transactionHash,
+      wait: (timeoutMs?: number) => this.waitForRandomWords(requestId, blockNumber, timeoutMs),
+    };
+  }
+
+  /**
+   * Wait for the adapter to call back the consumer of a request
+   * @param requestId the request id
+   * @param fromBlock first block to search for the fulfillment in, typically the request block
+   * @param timeoutMs how long to wait before rejecting
+   * @returns the fulfillment as the Chainlink coordinator would have reported it
+   * @throws if the adapter itself rejected the randomness, or the timeout expires
+   */
+  public async waitForRandomWords(
+    requestId: BigNumberish,
+    fromBlock: number = 0,
+    timeoutMs?: number,
+  ): Promise<RandomWordsFulfilled> {
+    const { randomness, transactionHash } = await this.randomness.waitForRandomness(requestId, fromBlock, timeoutMs);
+    const receipt = await this.adapter.runner!.provider!.getTransactionReceipt(transactionHash);
+    if (!receipt) {
+      throw new Error(`fulfillment transaction ${transactionHash} was not found`);
+    }
+
+    const adapterAddress = (await this.adapter.getAddress()).toLowerCase();
+    const failed = receipt.logs
+      .filter((log) => log.address.toLowerCase() === adapterAddress)
+      .map((log) => this.adapter.interface.parseLog(log))
+      .some((log) => log?.name === "WrapperFulfillmentFailed" && log.args.requestId === toBigInt(requestId));
+    return {
+      requestId: toBigInt(requestId),
+      outputSeed: toBigInt(randomness),
+      randomWords: convertBytes32ToUint256Array(randomness, MAX_NUM_WORDS),
+      success: !failed,
+      transactionHash,
+      blockNumber: receipt.blockNumber,
+    };
+  }
+
+  protected static async randomnessClient(adapter: VRFAdapter, opts: RandomnessClientOpts): Promise<RandomnessClient> {
+    const randomnessSender = RandomnessSender__factory.connect(await adapter.randomnessSender(), adapter.runner);
+    return new RandomnessClient(randomnessSender, opts);
+  }
+}
+
+/**
+ * Mimics `VRFCoordinatorV2_5.requestRandomWords` against a `ChainlinkVRFCoordinatorV2_5Adapter`
+ */
+export class VRFCoordinatorClient extends VRFAdapterClient {
+  protected constructor(
+    public readonly adapter: ChainlinkVRFCoordinatorV2_5Adapter,
+    randomness: RandomnessClient,
+  ) {
+    super(adapter, randomness);
+  }
+
+  /**
+   * @param adapter the coordinator adapter, connected to the account making requests
+   * @param opts options for following the underlying RandomnessSender requests
+   */
+  public static async create(
+    adapter: ChainlinkVRFCoordinatorV2_5Adapter,
+    opts: RandomnessClientOpts = {},
+  ): Promise<VRFCoordinatorClient> {
+    return new VRFCoordinatorClient(adapter, await VRFAdapterClient.randomnessClient(adapter, opts));
+  }
+
+  /**
+   * Request random words charged to a subscription, with the connected account as the consumer
+   * @throws if the request asks for more words or another payment mode than the adapter provides
+   */
+  public async requestRandomWords(req: RandomWordsRequest): Promise<VRFRequest> {
+    const request = withDefaults(req);
+    const tx = await this.adapter.requestRandomWords({
+      ...request,
+      keyHash: req.keyHash ?? ZeroHash,
+      subId: req.subId,
+    });
+    return this.requestFromTransaction(tx);
+  }
+}
+
+/**
+ * Mimics `VRFV2PlusWrapper.requestRandomWordsInNative` against a `ChainlinkVRFV2PlusWrapperAdapter`
+ */
+export class VRFWrapperClient extends VRFAdapterClient {
+  protected constructor(
+    public readonly adapter: ChainlinkVRFV2PlusWrapperAdapter,
+    randomness: RandomnessClient,
+  ) {
+    super(adapter, randomness);
+  }
+
+  /**
+   * @param adapter the wrapper adapter, connected to the account making requests
+   * @param opts options for following the underlying RandomnessSender requests
+   */
+  public static async create(
+    adapter: ChainlinkVRFV2PlusWrapperAdapter,
+    opts: RandomnessClientOpts = {},
+  ): Promise<VRFWrapperClient> {
+    return new VRFWrapperClient(adapter, await VRFAdapterClient.randomnessClient(adapter, opts));
+  }
+
+  /**
+   * Request random words paid for with `msg.value`, with the connected account as the consumer
+   * @param req request parameters
+   * @param value fee to send with the request, defaults to the adapter's estimate at the current gas price
+   * @throws if the request asks for more words or another payment mode than the adapter provides
+   */
+  public async requestRandomWordsInNative(req: WrapperRandomWordsRequest, value?: bigint): Promise<VRFRequest> {
+    const { callbackGasLimit, requestConfirmations, numWords, extraArgs } = withDefaults(req);
+    if (value === undefined) {
+      const feeData = await this.adapter.runner!.provider!.getFeeData();
+      const gasPriceWei = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+      value = await this.adapter.estimateRequestPriceNative(callbackGasLimit, numWords, gasPriceWei);
+    }
+    const tx = await this.adapter.requestRandomWordsInNative(
+      callbackGasLimit,
+      requestConfirmations,
+      numWords,
+      extraArgs,
+      {
+        value,
+      },
+    );
+    return this.requestFromTransaction(tx);
+  }
+}
+
+function withDefaults(req: WrapperRandomWordsRequest) {
+  const numWords = req.numWords ?? MAX_NUM_WORDS;
+  if (numWords < 1 || numWords > MAX_NUM_WORDS) {
+    throw new Error(`the adapters deliver ${MAX_NUM_WORDS} random word per request, not ${numWords}`);
+  }
+  const extraArgs = req.extraArgs ?? encodeExtraArgsV1({ nativePayment: true });
+  if (!decodeExtraArgsV1(extraArgs).nativePayment) {
+    throw new Error("the adapters only support native payment");
+  }
+  return {
+    callbackGasLimit: req.callbackGasLimit,
+    requestConfirmations: req.requestConfirmations ?? 0,
+    numWords,
+    extraArgs,
+  };
+}
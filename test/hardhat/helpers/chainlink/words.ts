@@ -0,0 +1,64 @@
+import {
+  AbiCoder,
+  BigNumberish,
+  BytesLike,
+  concat,
+  dataSlice,
+  getBytes,
+  id,
+  keccak256,
+  solidityPacked,
+  toBigInt,
+} from "ethers";
+
+// Both adapters expand the delivered randomness into a single word, whatever `numWords` was requested
+export const MAX_NUM_WORDS = 1;
+
+// `VRFV2PlusClient.EXTRA_ARGS_V1_TAG`, i.e. `bytes4(keccak256("VRF ExtraArgsV1"))`
+export const EXTRA_ARGS_V1_TAG = dataSlice(id("VRF ExtraArgsV1"), 0, 4);
+
+export type ExtraArgsV1 = {
+  nativePayment: boolean;
+};
+
+/**
+ * Reproduce the adapters' `convertBytes32ToUint256Array`, i.e. `uint256(keccak256(abi.encodePacked(randomness, i)))`
+ * for every index below `count`
+ * @param randomness the 32 byte randomness delivered by the RandomnessSender
+ * @param count number of words to derive
+ * @returns the random words handed to `rawFulfillRandomWords`
+ */
+export function convertBytes32ToUint256Array(randomness: BytesLike, count: BigNumberish = MAX_NUM_WORDS): bigint[] {
+  if (getBytes(randomness).length !== 32) {
+    throw new Error(`randomness must be 32 bytes: ${randomness}`);
+  }
+  const words: bigint[] = [];
+  for (let i = 0n; i < toBigInt(count); i++) {
+    words.push(toBigInt(keccak256(solidityPacked(["bytes32", "uint256"], [randomness, i]))));
+  }
+  return words;
+}
+
+/**
+ * Encode extra arguments as `VRFV2PlusClient._argsToBytes` does
+ */
+export function encodeExtraArgsV1(args: ExtraArgsV1): string {
+  return concat([EXTRA_ARGS_V1_TAG, AbiCoder.defaultAbiCoder().encode(["bool"], [args.nativePayment])]);
+}
+
+/**
+ * Decode extra arguments produced by `VRFV2PlusClient._argsToBytes`; empty arguments select LINK payment, as on the
+ * Chainlink coordinator
+ * @throws if the arguments are not tagged as `ExtraArgsV1`
+ */
+export function decodeExtraArgsV1(extraArgs: BytesLike): ExtraArgsV1 {
+  const bytes = getBytes(extraArgs);
+  if (bytes.length === 0) {
+    return { nativePayment: false };
+  }
+  if (bytes.length !== 36 || dataSlice(bytes, 0, 4) !== EXTRA_ARGS_V1_TAG) {
+    throw new Error(`invalid extra args: ${extraArgs}`);
+  }
+  const [nativePayment] = AbiCoder.defaultAbiCoder().decode(["bool"], dataSlice(bytes, 4));
+  return { nativePayment };
+}
@@ -0,0 +1,188 @@
+import { BlsBn254, kyberMarshalG2 } from "../crypto";
+import { FeeConfig } from "../randomness";
+import { config as dotEnvConfig } from "dotenv";
+import { isAddress, isHexString } from "ethers";
+import type { G2 } from "mcl-wasm";
+
+const UINT8_MAX = 2n ** 8n - 1n;
+const UINT32_MAX = 2n ** 32n - 1n;
+// `FeeCollector.PREMIUM_PERCENTAGE_MAX`, which `setConfig` requires the premium to be below
+export const PREMIUM_PERCENTAGE_MAX = 155n;
+
+/**
+ * The threshold network's BN254 public key, in every encoding it is needed in
+ */
+export type BlsPublicKeyConfig = {
+  evm: [bigint, bigint, bigint, bigint]; // BLS_PUBLIC_KEY_X0, X1, Y0, Y1
+  g2: G2;
+  kyberHex: string; // as marshalled by kyber, to compare against the key reported by the network
+};
+
+/**
+ * Deployment configuration read from the variables listed in `.env.example`
+ */
+export type EnvConfig = {
+  privateKey?: string;
+  rpcUrl?: string;
+  create2FactoryAddress?: string;
+  isUpgrade: boolean;
+  blsPublicKey: BlsPublicKeyConfig;
+  feeConfig: FeeConfig;
+};
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Parse and validate the deployment configuration
+ * @param bls mcl wrapper used to rebuild the public key
+ * @param env environment variables, typically `process.env` after loading `.env` with dotenv
+ * @returns the validated configuration
+ * @throws listing every missing or invalid variable
+ */
+export function loadEnvConfig(bls: BlsBn254, env: Env = process.env): EnvConfig {
+  const errors: string[] = [];
+  const collect = <T>(parse: () => T): T | undefined => {
+    try {
+      return parse();
+    } catch (err) {
+      errors.push((err as Error).message);
+      return undefined;
+    }
+  };
+
+  const privateKey = collect(() => optional(env, "PRIVATE_KEY", parsePrivateKey));
+  const rpcUrl = collect(() => optional(env, "RPC_URL", (value) => value));
+  const create2FactoryAddress = collect(() => optional(env, "RANDAMU_CREATE2_FACTORY_CONTRACT_ADDRESS", parseAddress));
+  const isUpgrade = collect(() => optional(env, "IS_UPGRADE", parseBoolean) ?? false);
+
+  const coordinates = (
+    ["BLS_PUBLIC_KEY_X0", "BLS_PUBLIC_KEY_X1", "BLS_PUBLIC_KEY_Y0", "BLS_PUBLIC_KEY_Y1"] as const
+  ).map((name) => collect(() => parseFieldElement(name, required(env, name))));
+  const blsPublicKey = coordinates.every((c) => c !== undefined)
+    ? collect(() => parseBlsPublicKey(bls, coordinates as [bigint, bigint, bigint, bigint]))
+    : undefined;
+
+  const uint32 = (name: string) => collect(() => parseUint(name, required(env, name), UINT32_MAX));
+  const feeConfig = {
+    maxGasLimit: uint32("MAX_GAS_LIMIT"),
+    gasAfterPaymentCalculation: uint32("GAS_AFTER_PAYMENT_CALCULATION"),
+    fulfillmentFlatFeeNativePPM: uint32("FULFILLMENT_FLAT_FEE_NATIVE_PPM"),
+    weiPerUnitGas: uint32("WEI_PER_UNIT_GAS"),
+    blsPairingCheckOverhead: uint32("BLS_PAIRING_CHECK_OVERHEAD"),
+    nativePremiumPercentage: collect(() => parsePremiumPercentage(required(env, "NATIVE_PREMIUM_PERCENTAGE"))),
+    gasForCallExactCheck: uint32("GAS_FOR_CALL_EXACT_CHECK"),
+  };
+
+  if (errors.length > 0) {
+    throw new Error(`invalid environment configuration:\n  ${errors.join("\n  ")}`);
+  }
+  return {
+    privateKey,
+    rpcUrl,
+    create2FactoryAddress,
+    isUpgrade: isUpgrade!,
+    blsPublicKey: blsPublicKey!,
+    feeConfig: feeConfig as FeeConfig,
+  };
+}
+
+/**
+ * Rebuild the G2 public key from its EVM coordinates
+ * @throws if the point is not on the curve or not in the prime order subgroup
+ */
+export function parseBlsPublicKey(bls: BlsBn254, evm: [bigint, bigint, bigint, bigint]): BlsPublicKeyConfig {
+  const g2 = bls.g2FromEvm(evm);
+  if (g2.isZero()) {
+    throw new Error("BLS public key is the point at infinity");
+  }
+  if (!g2.isValid()) {
+    throw new Error("BLS public key is not on the BN254 G2 curve");
+  }
+  if (!g2.isValidOrder()) {
+    throw new Error("BLS public key is not in the BN254 G2 subgroup");
+  }
+  return { evm, g2, kyberHex: kyberMarshalG2(g2) };
+}
+
+/**
+ * Render a configuration for review before deploying, leaving out the private key
+ */
+export function formatEnvConfig({ rpcUrl, create2FactoryAddress, isUpgrade, blsPublicKey, feeConfig }: EnvConfig) {
+  return [
+    `RPC URL:                 ${rpcUrl ?? "(unset)"}`,
+    `CREATE2 factory:         ${create2FactoryAddress ?? "(unset)"}`,
+    `upgrade:                 ${isUpgrade}`,
+    `BLS public key (evm):    [${blsPublicKey.evm.join(", ")}]`,
+    `BLS public key (kyber):  ${blsPublicKey.kyberHex}`,
+    ...Object.entries(feeConfig).map(([key, value]) => `${`${key}:`.padEnd(25)}${value}`),
+  ].join("\n");
+}
+
+function required(env: Env, name: string): string {
+  const value = env[name]?.trim();
+  if (!value) {
+    throw new Error(`${name} is not set`);
+  }
+  return value;
+}
+
+function optional<T>(env: Env, name: string, parse: (value: string, name: string) => T): T | undefined {
+  const value = env[name]?.trim();
+  return value ? parse(value, name) : undefined;
+}
+
+function parseUint(name: string, value: string, max: bigint): bigint {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`${name} must be an unsigned integer, got "${value}"`);
+  }
+  const n = BigInt(value);
+  if (n > max) {
+    throw new Error(`${name} must be at most ${max}, got ${n}`);
+  }
+  return n;
+}
+
+function parsePremiumPercentage(value: string): bigint {
+  const premium = parseUint("NATIVE_PREMIUM_PERCENTAGE", value, UINT8_MAX);
+  if (premium >= PREMIUM_PERCENTAGE_MAX) {
+    throw new Error(`NATIVE_PREMIUM_PERCENTAGE must be below ${PREMIUM_PERCENTAGE_MAX}, got ${premium}`);
+  }
+  return premium;
+}
+
+function parseFieldElement(name: string, value: string): bigint {
+  return parseUint(name, value, BlsBn254.FIELD_ORDER - 1n);
+}
+
+function parsePrivateKey(value: string, name: string): string {
+  if (!isHexString(value, 32)) {
+    throw new Error(`${name} must be a 0x-prefixed 32 byte hex string`);
+  }
+  return value;
+}
+
+function parseAddress(value: string, name: string): string {
+  if (!isAddress(value)) {
+    throw new Error(`${name} must be an address, got "${value}"`);
+  }
+  return value;
+}
+
+function parseBoolean(value: string, name: string): boolean {
+  if (value !== "true" && value !== "false") {
+    throw new Error(`${name} must be "true" or "false", got "${value}"`);
+  }
+  return value === "true";
+}
+
+// Check `.env` and print the derived public key for cross-checking: npx ts-node test/hardhat/helpers/config/env.ts
+if (require.main === module) {
+  (async () => {
+    dotEnvConfig();
+    const bls = await BlsBn254.create();
+    console.log(formatEnvConfig(loadEnvConfig(bls)));
+  })().catch((err) => {
+    console.error(err.message);
+    process.exitCode = 1;
+  });
+}
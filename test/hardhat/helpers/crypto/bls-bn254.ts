@@ -4,12 +4,45 @@ import { dataSlice, hexlify, getBytes, keccak256, randomBytes, solidityPacked, B
 import * as mcl from "mcl-wasm";
 import type { G1, G2, Fr, Fp, Fp2 } from "mcl-wasm";
 
+/**
+ * A single node's public key share, used to verify its partial signatures
+ */
+export type PublicKeyShare = {
+  index: number; // 1-based node index, used as the evaluation point of the sharing polynomial
+  pubKey: G2;
+};
+
+/**
+ * A single node's share of a t-of-n Shamir secret sharing of a BLS secret key
+ */
+export type SecretKeyShare = PublicKeyShare & {
+  secretKey: Fr;
+};
+
+/**
+ * A partial signature produced by signing with a `SecretKeyShare`
+ */
+export type PartialSignature = {
+  index: number;
+  signature: G1;
+};
+
+/**
+ * A message point on G1 together with its signature
+ */
+export type SignedMessage = {
+  M: G1;
+  signature: G1;
+};
+
 /**
  * Mcl wrapper for BLS operations
  * Adapted from: https://github.com/kilic/evmbls
  */
 class BlsBn254 {
   static readonly FIELD_ORDER = 0x30644e72e131a029b85045b68181585d97816a916871ca8d3c208c16d87cfd47n;
+  // Proofs of possession are hashed under their own DST so they can never be replayed as signatures, or vice versa
+  static readonly POP_DST = "BLS_POP_BN254G1_XMD:KECCAK-256_SVDW_RO_POP_";
 
   public readonly G1: G1;
   public readonly G2: G2;
@@ -248,6 +281,216 @@ class BlsBn254 {
     return mcl.pairing(h_m, pk).isEqual(mcl.pairing(signature, this.G2));
   }
 
+  /**
+   * Verify many signatures under the same public key with a single multi-pairing
+   * Each signature is weighted by a fresh random scalar so that invalid signatures cannot cancel each other out:
+   * e(sum(r_i * sig_i), -G2) * e(sum(r_i * M_i), pk) == 1
+   * @returns true if every signature in the batch is valid
+   */
+  public batchVerify(pk: G2, batch: SignedMessage[]): boolean {
+    if (batch.length === 0) {
+      return true;
+    }
+    if (!batch.every(({ M, signature }) => M.isValid() && signature.isValid())) {
+      return false;
+    }
+
+    const weights = batch.map(() => {
+      const r = new mcl.Fr();
+      r.setByCSPRNG();
+      return r;
+    });
+    const aggregateSignature = mcl.mulVec(
+      batch.map(({ signature }) => signature),
+      weights,
+    );
+    const aggregateMessage = mcl.mulVec(
+      batch.map(({ M }) => M),
+      weights,
+    );
+    const e = mcl.mul(mcl.millerLoop(aggregateSignature, mcl.neg(this.G2)), mcl.millerLoop(aggregateMessage, pk));
+    return mcl.finalExp(e).isOne();
+  }
+
+  /**
+   * Find the invalid signatures in a batch, bisecting failing sub-batches until each bad signature is isolated
+   * @returns positions in `batch` of the invalid signatures, in ascending order
+   */
+  public findInvalidSignatures(pk: G2, batch: SignedMessage[]): number[] {
+    const bisect = (start: number, end: number): number[] => {
+      if (this.batchVerify(pk, batch.slice(start, end))) {
+        return [];
+      }
+      if (end - start === 1) {
+        return [start];
+      }
+      const mid = start + Math.floor((end - start) / 2);
+      return [...bisect(start, mid), ...bisect(mid, end)];
+    };
+    return bisect(0, batch.length);
+  }
+
+  /**
+   * Split a secret key into n Shamir shares such that any `threshold` of them can recover a group signature
+   * @param secretKey the group secret key, i.e. the constant term of the sharing polynomial
+   * @param threshold number of shares required to recover a signature
+   * @param n total number of shares
+   * @returns one share per node, indexed from 1 to n
+   */
+  public createKeyShares(secretKey: Fr, threshold: number, n: number): SecretKeyShare[] {
+    if (!Number.isInteger(threshold) || !Number.isInteger(n) || threshold < 1 || threshold > n) {
+      throw new Error(`invalid threshold: ${threshold}-of-${n}`);
+    }
+
+    const coefficients: Fr[] = [secretKey];
+    for (let i = 1; i < threshold; i++) {
+      const coefficient = new mcl.Fr();
+      coefficient.setByCSPRNG();
+      coefficients.push(coefficient);
+    }
+
+    const shares: SecretKeyShare[] = [];
+    for (let index = 1; index <= n; index++) {
+      const share = mcl.shareFr(coefficients, this.frFromIndex(index));
+      const pubKey: G2 = mcl.mul(this.G2, share);
+      pubKey.normalize();
+      shares.push({ index, secretKey: share, pubKey });
+    }
+    return shares;
+  }
+
+  /**
+   * Sign a message point with a key share
+   */
+  public signPartial(M: G1, share: SecretKeyShare): PartialSignature {
+    const { signature } = this.sign(M, share.secretKey);
+    return { index: share.index, signature };
+  }
+
+  /**
+   * Recover the group signature from partial signatures using Lagrange interpolation on G1
+   * @param partials partial signatures with distinct indices; only the first `threshold` are used
+   * @param threshold number of partial signatures required to recover the group signature
+   * @returns the group signature, identical to signing with the group secret key
+   */
+  public recoverSignature(partials: PartialSignature[], threshold: number): G1 {
+    if (partials.length < threshold) {
+      throw new Error(`not enough partial signatures: got ${partials.length}, need ${threshold}`);
+    }
+    const selected = partials.slice(0, threshold);
+    const indices = new Set(selected.map((p) => p.index));
+    if (indices.size !== selected.length) {
+      throw new Error("duplicate partial signature index");
+    }
+
+    const signature = mcl.recoverG1(
+      selected.map((p) => this.frFromIndex(p.index)),
+      selected.map((p) => p.signature),
+    );
+    signature.normalize();
+    return signature;
+  }
+
+  /**
+   * Verify a partial signature against the public key share of the node that produced it
+   */
+  public verifyPartial(h_m: G1, share: PublicKeyShare, partial: PartialSignature): boolean {
+    if (share.index !== partial.index) {
+      return false;
+    }
+    return this.verify(h_m, share.pubKey, partial.signature);
+  }
+
+  /**
+   * Find the partial signatures that do not verify against their node's public key share
+   * @returns indices of the invalid partial signatures, including those without a known public key share
+   */
+  public findInvalidPartials(h_m: G1, shares: PublicKeyShare[], partials: PartialSignature[]): number[] {
+    return this.partitionPartials(h_m, shares, partials).invalid.map((partial) => partial.index);
+  }
+
+  /**
+   * Recover the group signature from the valid partial signatures only
+   * @returns the group signature and the indices of the partial signatures that were rejected
+   */
+  public recoverVerifiedSignature(
+    h_m: G1,
+    shares: PublicKeyShare[],
+    partials: PartialSignature[],
+    threshold: number,
+  ): { signature: G1; invalidIndices: number[] } {
+    const { valid, invalid } = this.partitionPartials(h_m, shares, partials);
+    const invalidIndices = invalid.map((partial) => partial.index);
+    // a node may be flagged for one partial and still have contributed a valid one
+    const unique = valid.filter((partial, i) => valid.findIndex((other) => other.index === partial.index) === i);
+    if (unique.length < threshold) {
+      throw new Error(`not enough valid partial signatures: got ${unique.length}, need ${threshold}`);
+    }
+    return {
+      signature: this.recoverSignature(unique, threshold),
+      invalidIndices,
+    };
+  }
+
+  private partitionPartials(h_m: G1, shares: PublicKeyShare[], partials: PartialSignature[]) {
+    const sharesByIndex = new Map(shares.map((share) => [share.index, share]));
+    const valid: PartialSignature[] = [];
+    const invalid: PartialSignature[] = [];
+    for (const partial of partials) {
+      const share = sharesByIndex.get(partial.index);
+      if (share && this.verifyPartial(h_m, share, partial)) {
+        valid.push(partial);
+      } else {
+        invalid.push(partial);
+      }
+    }
+    return { valid, invalid };
+  }
+
+  private frFromIndex(index: number): Fr {
+    if (!Number.isInteger(index) || index < 1) {
+      throw new Error(`invalid share index: ${index}`);
+    }
+    const id = new mcl.Fr();
+    id.setInt(index);
+    return id;
+  }
+
+  /**
+   * Encode a public key as the message signed by its proof of possession, i.e. abi.encodePacked(x0, x1, y0, y1)
+   * in the same limb order as `BLS.PointG2` on chain
+   */
+  public proofOfPossessionMessage(pubKey: G2): Uint8Array {
+    return getBytes(solidityPacked(["uint256[4]"], [this.serialiseG2Point(pubKey)]));
+  }
+
+  /**
+   * Prove knowledge of the secret key behind a G2 public key by signing the public key itself under `POP_DST`
+   * @returns the proof of possession as a G1 point
+   */
+  public createProofOfPossession(secretKey: Fr, pubKey: G2): G1 {
+    const M = this.hashToPoint(utf8ToBytes(BlsBn254.POP_DST), this.proofOfPossessionMessage(pubKey));
+    return this.sign(M, secretKey).signature;
+  }
+
+  public verifyProofOfPossession(pubKey: G2, proof: G1): boolean {
+    if (pubKey.isZero() || !pubKey.isValidOrder() || !proof.isValid()) {
+      return false;
+    }
+    const M = this.hashToPoint(utf8ToBytes(BlsBn254.POP_DST), this.proofOfPossessionMessage(pubKey));
+    return this.verify(M, pubKey, proof);
+  }
+
+  /**
+   * Serialise a proof of possession for `BLS.verifySingle(proof, pubKey, M)` on chain,
+   * where M = BLS.hashToPoint(POP_DST, abi.encodePacked(pubKey))
+   */
+  public proofOfPossessionToArgs(pubKey: G2, proof: G1) {
+    const M = this.hashToPoint(utf8ToBytes(BlsBn254.POP_DST), this.proofOfPossessionMessage(pubKey));
+    const { signature, ...args } = this.toArgs(pubKey, M, proof);
+    return { proof: signature, ...args };
+  }
+
   public toArgs(pubKey: G2, M: G1, signature: G1) {
     return {
       signature: this.serialiseG1Point(signature),
@@ -381,6 +624,79 @@ class BlsBn254 {
     _acc.normalize();
     return _acc;
   }
+
+  /**
+   * Aggregate signatures by n signers on the same message, weighting each signer by a coefficient derived from the
+   * full set of public keys. This prevents rogue-key attacks, where a signer picks their public key as a function
+   * of the others' to forge an aggregate signature.
+   * @param pubKeys public keys of the signers, in the same order as `signatures`
+   * @param signatures signatures on the same message
+   * @returns the aggregate signature and the matching aggregate public key
+   */
+  public aggregateSameMessage(pubKeys: G2[], signatures: G1[]): { signature: G1; pubKey: G2 } {
+    if (pubKeys.length === 0 || pubKeys.length !== signatures.length) {
+      throw new Error("mismatched public keys and signatures");
+    }
+    const coefficients = this.keyAggregationCoefficients(pubKeys);
+    const signature = mcl.mulVec(signatures, coefficients);
+    signature.normalize();
+    return { signature, pubKey: this.aggregatePublicKeys(pubKeys, coefficients) };
+  }
+
+  /**
+   * Verify an aggregate signature produced by `aggregateSameMessage`
+   */
+  public aggregateVerifySameMessage(h_m: G1, pubKeys: G2[], signature: G1): boolean {
+    if (pubKeys.length === 0) {
+      return false;
+    }
+    const pubKey = this.aggregatePublicKeys(pubKeys, this.keyAggregationCoefficients(pubKeys));
+    return this.verify(h_m, pubKey, signature);
+  }
+
+  /**
+   * Verify an aggregate signature over n distinct (public key, message) pairs with a single multi-pairing:
+   * e(signature, -G2) * prod(e(M_i, pk_i)) == 1
+   * Messages must be distinct, otherwise signers on the same message are open to rogue-key attacks.
+   */
+  public aggregateVerify(pairs: { pubKey: G2; M: G1 }[], signature: G1): boolean {
+    if (pairs.length === 0 || !signature.isValid()) {
+      return false;
+    }
+    const messages = new Set(pairs.map(({ M }) => M.serializeToHexStr()));
+    if (messages.size !== pairs.length) {
+      return false;
+    }
+    if (!pairs.every(({ pubKey, M }) => pubKey.isValidOrder() && !pubKey.isZero() && M.isValid())) {
+      return false;
+    }
+
+    let e = mcl.millerLoop(signature, mcl.neg(this.G2));
+    for (const { pubKey, M } of pairs) {
+      e = mcl.mul(e, mcl.millerLoop(M, pubKey));
+    }
+    return mcl.finalExp(e).isOne();
+  }
+
+  /**
+   * Derive a coefficient for each public key as keccak256(pk_i || pk_1 || ... || pk_n) mod r
+   */
+  public keyAggregationCoefficients(pubKeys: G2[]): Fr[] {
+    const all = pubKeys.flatMap((pk) => this.serialiseG2Point(pk));
+    return pubKeys.map((pk) => {
+      const coefficient = new mcl.Fr();
+      coefficient.setBigEndianMod(
+        getBytes(keccak256(solidityPacked(["uint256[4]", "uint256[]"], [this.serialiseG2Point(pk), all]))),
+      );
+      return coefficient;
+    });
+  }
+
+  private aggregatePublicKeys(pubKeys: G2[], coefficients: Fr[]): G2 {
+    const pubKey = mcl.mulVec(pubKeys, coefficients);
+    pubKey.normalize();
+    return pubKey;
+  }
 }
 
 function bytes(b: BytesLike): Uint8Array {
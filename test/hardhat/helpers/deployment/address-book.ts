@@ -0,0 +1,288 @@
+import { dataSlice, getAddress, Provider } from "ethers";
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from "fs";
+import { basename, join } from "path";
+
+// Proxy contracts whose first constructor argument is the implementation address
+const PROXY_CONTRACTS = ["UUPSProxy", "ERC1967Proxy"];
+// bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)
+const ERC1967_IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+/**
+ * A contract creation found in a Foundry broadcast or an Ignition journal
+ */
+export type DeploymentRecord = {
+  contractName: string;
+  address: string;
+  chainId: number;
+  transactionHash?: string;
+  blockNumber?: number;
+  constructorArgs: unknown[];
+  source: "foundry" | "ignition";
+  origin: string; // broadcast file or Ignition future ID the record was read from
+};
+
+export type ContractDeployment = {
+  address: string;
+  implementation?: string; // set for proxies
+  transactionHash?: string;
+  blockNumber?: number;
+  source: DeploymentRecord["source"];
+  origin: string;
+};
+
+/**
+ * Latest deployment of every contract on every chain, keyed by contract name then chain ID. Proxies are listed under
+ * the name of their implementation contract, or as `<proxy name>@<proxy address>` when the implementation is not
+ * among the records.
+ */
+export type AddressBook = Record<string, Record<string, ContractDeployment & { history: ContractDeployment[] }>>;
+
+/**
+ * Read the CREATE and CREATE2 transactions from Foundry's `broadcast/<script>/<chainId>/run-*.json` files.
+ * `run-latest.json` duplicates the newest run and `dry-run` directories were never sent, so both are skipped.
+ */
+export function readFoundryBroadcasts(broadcastDir: string): DeploymentRecord[] {
+  const records: DeploymentRecord[] = [];
+  for (const script of subdirectories(broadcastDir)) {
+    for (const chainDir of subdirectories(script)) {
+      const chainId = Number(basename(chainDir));
+      if (!Number.isInteger(chainId)) {
+        continue;
+      }
+      const runs = readdirSync(chainDir).filter((file) => /^run-\d+\.json$/.test(file));
+      for (const file of runs.sort((a, b) => runTimestamp(a) - runTimestamp(b))) {
+        const run = JSON.parse(readFileSync(join(chainDir, file), "utf8"));
+        const receipts = new Map<string, { blockNumber: string }>(
+          (run.receipts ?? []).map((receipt: { transactionHash: string }) => [receipt.transactionHash, receipt]),
+        );
+        for (const tx of run.transactions ?? []) {
+          if ((tx.transactionType !== "CREATE" && tx.transactionType !== "CREATE2") || tx.hash == null) {
+            continue;
+          }
+          const blockNumber = receipts.get(tx.hash)?.blockNumber;
+          records.push({
+            contractName: tx.contractName,
+            address: getAddress(tx.contractAddress),
+            chainId,
+            transactionHash: tx.hash,
+            blockNumber: blockNumber === undefined ? undefined : Number(blockNumber),
+            constructorArgs: tx.arguments ?? [],
+            source: "foundry",
+            origin: join(chainDir, file),
+          });
+        }
+      }
+    }
+  }
+  return records;
+}
+
+/**
+ * Read the successful contract deployments from the `journal.jsonl` of every deployment in Ignition's
+ * `deployments` directory
+ */
+export function readIgnitionDeployments(deploymentsDir: string): DeploymentRecord[] {
+  const records: DeploymentRecord[] = [];
+  for (const deploymentDir of subdirectories(deploymentsDir)) {
+    const journal = join(deploymentDir, "journal.jsonl");
+    if (!existsSync(journal)) {
+      continue;
+    }
+
+    let chainId: number | undefined;
+    const pending = new Map<string, Omit<DeploymentRecord, "address" | "chainId">>();
+    for (const line of readFileSync(journal, "utf8").split("\n")) {
+      if (line.trim() === "") {
+        continue;
+      }
+      const entry = JSON.parse(line);
+      switch (entry.type) {
+        case "DEPLOYMENT_INITIALIZE":
+          chainId = entry.chainId;
+          break;
+        case "DEPLOYMENT_EXECUTION_STATE_INITIALIZE":
+          pending.set(entry.futureId, {
+            contractName: entry.contractName,
+            constructorArgs: entry.constructorArgs ?? [],
+            source: "ignition",
+            origin: entry.futureId,
+          });
+          break;
+        case "TRANSACTION_CONFIRM": {
+          const record = pending.get(entry.futureId);
+          if (record) {
+            record.transactionHash = entry.hash;
+            record.blockNumber = entry.receipt?.blockNumber;
+          }
+          break;
+        }
+        case "DEPLOYMENT_EXECUTION_STATE_COMPLETE": {
+          const record = pending.get(entry.futureId);
+          if (record && entry.result?.type === "SUCCESS" && chainId !== undefined) {
+            records.push({ ...record, address: getAddress(entry.result.address), chainId });
+          }
+          break;
+        }
+      }
+    }
+  }
+  return records;
+}
+
+/**
+ * Read the implementation address of an ERC-1967 proxy
+ */
+export async function readImplementation(provider: Provider, proxy: string): Promise<string> {
+  const slot = await provider.getStorage(proxy, ERC1967_IMPLEMENTATION_SLOT);
+  return getAddress(dataSlice(slot, 12));
+}
+
+export type AddressBookOpts = {
+  // providers to read the current implementation of proxies from, by chain ID. Without a provider, a proxy resolves
+  // to the implementation it was deployed with.
+  providers?: Record<number, Provider>;
+};
+
+/**
+ * Merge deployment records into an address book. Per contract and chain, the deployment in the highest block is the
+ * current one and the others are kept, oldest first, in `history`. When a contract is behind a proxy, the latest proxy
+ * is the current one even if an implementation was deployed after it.
+ */
+export async function buildAddressBook(records: DeploymentRecord[], opts: AddressBookOpts = {}): Promise<AddressBook> {
+  const byAddress = new Map(records.map((record) => [addressKey(record.chainId, record.address), record]));
+  const behindProxy = new Set<string>();
+
+  const deployments: { name: string; chainId: number; deployment: ContractDeployment; order: number }[] = [];
+  for (const [order, record] of records.entries()) {
+    let name = record.contractName;
+    const deployment: ContractDeployment = {
+      address: record.address,
+      transactionHash: record.transactionHash,
+      blockNumber: record.blockNumber,
+      source: record.source,
+      origin: record.origin,
+    };
+
+    if (PROXY_CONTRACTS.includes(record.contractName) && typeof record.constructorArgs[0] === "string") {
+      const provider = opts.providers?.[record.chainId];
+      const implementation = provider
+        ? await readImplementation(provider, record.address)
+        : getAddress(record.constructorArgs[0]);
+      const implementationRecord = byAddress.get(addressKey(record.chainId, implementation));
+      if (implementationRecord) {
+        name = implementationRecord.contractName;
+        behindProxy.add(addressKey(record.chainId, implementation));
+      } else {
+        // without a name to list it under, keep the proxy apart from every other unresolved proxy
+        name = `${record.contractName}@${record.address}`;
+      }
+      deployment.implementation = implementation;
+    }
+    deployments.push({ name, chainId: record.chainId, deployment, order });
+  }
+
+  const book: AddressBook = {};
+  const ordered = deployments
+    .filter(
+      ({ deployment, chainId }) =>
+        deployment.implementation || !behindProxy.has(addressKey(chainId, deployment.address)),
+    )
+    .sort(
+      (a, b) => (a.deployment.blockNumber ?? Infinity) - (b.deployment.blockNumber ?? Infinity) || a.order - b.order,
+    );
+  const groups = new Map<string, { name: string; chainId: number; deployments: ContractDeployment[] }>();
+  for (const { name, chainId, deployment } of ordered) {
+    const key = `${name}:${chainId}`;
+    if (!groups.has(key)) {
+      groups.set(key, { name, chainId, deployments: [] });
+    }
+    groups.get(key)!.deployments.push(deployment);
+  }
+  for (const { name, chainId, deployments } of groups.values()) {
+    // a bare deployment of a proxied contract is a new implementation for an upgrade, the proxy stays current
+    const proxies = deployments.filter((deployment) => deployment.implementation);
+    const candidates = proxies.length > 0 ? proxies : deployments;
+    const current = candidates[candidates.length - 1];
+    book[name] ??= {};
+    book[name][chainId] = { ...current, history: deployments.filter((deployment) => deployment !== current) };
+  }
+  return sortKeys(book);
+}
+
+/**
+ * Render a typed module exporting the current address of every contract
+ */
+export function renderAddressBookModule(book: AddressBook): string {
+  const current = Object.fromEntries(
+    Object.entries(book).map(([name, chains]) => [
+      name,
+      Object.fromEntries(
+        Object.entries(chains).map(([chainId, { address, implementation }]) => [
+          chainId,
+          implementation ? { address, implementation } : { address },
+        ]),
+      ),
+    ]),
+  );
+  return [
+    "// Generated by test/hardhat/helpers/deployment/address-book.ts, do not edit.",
+    "",
+    `export const addresses = ${JSON.stringify(current, null, 2)} as const;`,
+    "",
+    "export type ContractName = keyof typeof addresses;",
+    "",
+    "export type ChainId<C extends ContractName> = keyof (typeof addresses)[C];",
+    "",
+    "export function getContractAddress<C extends ContractName>(contract: C, chainId: ChainId<C>): string {",
+    "  return (addresses[contract][chainId] as { address: string }).address;",
+    "}",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Write `contract-addresses.json`, with the deployment history, and the typed `contract-addresses.ts` module
+ */
+export function writeAddressBook(book: AddressBook, outDir: string): void {
+  mkdirSync(outDir, { recursive: true });
+  writeFileSync(join(outDir, "contract-addresses.json"), `${JSON.stringify(book, null, 2)}\n`);
+  writeFileSync(join(outDir, "contract-addresses.ts"), renderAddressBookModule(book));
+}
+
+function subdirectories(dir: string): string[] {
+  if (!existsSync(dir)) {
+    return [];
+  }
+  return readdirSync(dir)
+    .filter((name) => name !== "dry-run")
+    .map((name) => join(dir, name))
+    .filter((path) => statSync(path).isDirectory());
+}
+
+function runTimestamp(file: string): number {
+  return Number(file.slice("run-".length, -".json".length));
+}
+
+function addressKey(chainId: number, address: string): string {
+  return `${chainId}:${address.toLowerCase()}`;
+}
+
+function sortKeys(book: AddressBook): AddressBook {
+  return Object.fromEntries(
+    Object.keys(book)
+      .sort()
+      .map((name) => [name, book[name]]),
+  );
+}
+
+// Generate the address book from the repo's deployments: npx ts-node test/hardhat/helpers/deployment/address-book.ts
+if (require.main === module) {
+  const [outDir = "."] = process.argv.slice(2);
+  const records = [...readFoundryBroadcasts("broadcast"), ...readIgnitionDeployments(join("ignition", "deployments"))];
+  buildAddressBook(records)
+    .then((book) => writeAddressBook(book, outDir))
+    .catch((err) => {
+      console.error(err.message);
+      process.exitCode = 1;
+    });
+}
@@ -0,0 +1,215 @@
+import {
+  BLS12381CompressedSignatureScheme__factory,
+  BLS12381SignatureScheme__factory,
+  BN254SignatureScheme__factory,
+  Factory,
+  RandomnessSender__factory,
+  SignatureSchemeAddressProvider__factory,
+  SignatureSender__factory,
+  UUPSProxy__factory,
+} from "../../../../typechain-types";
+import { DEFAULT_APPLICATION_NAME } from "../randomness";
+import {
+  BytesLike,
+  concat,
+  ContractRunner,
+  getAddress,
+  getCreate2Address,
+  hexlify,
+  keccak256,
+  toUtf8Bytes,
+} from "ethers";
+
+/**
+ * Contracts of the randomness stack that are deployed through the CREATE2 factory, in deployment order
+ */
+export const STACK_CONTRACTS = [
+  "SignatureSchemeAddressProvider",
+  "BN254SignatureScheme",
+  "BLS12381SignatureScheme",
+  "BLS12381CompressedSignatureScheme",
+  "SignatureSenderImplementation",
+  "SignatureSenderProxy",
+  "RandomnessSenderImplementation",
+  "RandomnessSenderProxy",
+] as const;
+
+export type StackContract = (typeof STACK_CONTRACTS)[number];
+
+/**
+ * A single contract deployment through `Factory.deploy`
+ */
+export type Create2Deployment = {
+  name: string;
+  salt: `0x${string}`;
+  creationCode: `0x${string}`; // creation bytecode followed by the abi encoded constructor arguments
+  creationCodeHash: `0x${string}`;
+  address: string;
+};
+
+/**
+ * Where every contract of the stack will be deployed on one chain
+ */
+export type Create2Plan = {
+  chainId: bigint;
+  factoryAddress: string;
+  deployments: Create2Deployment[];
+};
+
+export type StackPlanOpts = {
+  chainId: bigint;
+  factoryAddress: string;
+  // owner of the SignatureSchemeAddressProvider. The factory is the deployer, so it cannot default to msg.sender.
+  admin: string;
+  bn254PublicKey: BytesLike;
+  bls12381PublicKey: BytesLike;
+  applicationName?: string;
+  saltNamespace: string; // salts are derived from the namespace and contract name unless given in `salts`
+  salts?: Partial<Record<StackContract, BytesLike>>;
+};
+
+/**
+ * Salt of a contract derived from a namespace, e.g. a release name, so that every contract gets its own salt
+ */
+export function deriveSalt(namespace: string, name: string): `0x${string}` {
+  return keccak256(toUtf8Bytes(`${namespace}:${name}`)) as `0x${string}`;
+}
+
+/**
+ * Compute the address of a contract deployed with `Factory.deploy`, mirroring `Factory.computeAddress`
+ * @param factoryAddress address of the CREATE2 factory
+ * @param name contract name, for reporting
+ * @param salt the 32 byte salt
+ * @param creationCode creation bytecode followed by the abi encoded constructor arguments
+ */
+export function planDeployment(
+  factoryAddress: string,
+  name: string,
+  salt: BytesLike,
+  creationCode: BytesLike,
+): Create2Deployment {
+  const creationCodeHash = keccak256(creationCode) as `0x${string}`;
+  return {
+    name,
+    salt: hexlify(salt) as `0x${string}`,
+    creationCode: hexlify(creationCode) as `0x${string}`,
+    creationCodeHash,
+    address: getCreate2Address(factoryAddress, salt, creationCodeHash),
+  };
+}
+
+/**
+ * Plan the CREATE2 deployment of the randomness stack from the compiled creation code, without a network connection.
+ * The proxies are planned against the planned implementation addresses and still have to be initialized after
+ * deployment.
+ */
+export function planRandomnessStack(opts: StackPlanOpts): Create2Plan {
+  const applicationName = opts.applicationName ?? DEFAULT_APPLICATION_NAME;
+  const salt = (name: StackContract) => opts.salts?.[name] ?? deriveSalt(opts.saltNamespace, name);
+  const plan = (name: StackContract, creationCode: BytesLike) =>
+    planDeployment(opts.factoryAddress, name, salt(name), creationCode);
+
+  const withArgs = (
+    factory: { bytecode: string; createInterface(): { encodeDeploy(args: unknown[]): string } },
+    args: unknown[] = [],
+  ) => concat([factory.bytecode, factory.createInterface().encodeDeploy(args)]);
+
+  const signatureSenderImplementation = plan("SignatureSenderImplementation", withArgs(SignatureSender__factory));
+  const randomnessSenderImplementation = plan("RandomnessSenderImplementation", withArgs(RandomnessSender__factory));
+  const deployments = [
+    plan("SignatureSchemeAddressProvider", withArgs(SignatureSchemeAddressProvider__factory, [opts.admin])),
+    plan("BN254SignatureScheme", withArgs(BN254SignatureScheme__factory, [opts.bn254PublicKey, applicationName])),
+    plan(
+      "BLS12381SignatureScheme",
+      withArgs(BLS12381SignatureScheme__factory, [opts.bls12381PublicKey, applicationName]),
+    ),
+    plan(
+      "BLS12381CompressedSignatureScheme",
+      withArgs(BLS12381CompressedSignatureScheme__factory, [opts.bls12381PublicKey, applicationName]),
+    ),
+    signatureSenderImplementation,
+    plan("SignatureSenderProxy", withArgs(UUPSProxy__factory, [signatureSenderImplementation.address, "0x"])),
+    randomnessSenderImplementation,
+    plan("RandomnessSenderProxy", withArgs(UUPSProxy__factory, [randomnessSenderImplementation.address, "0x"])),
+  ];
+  return { chainId: opts.chainId, factoryAddress: opts.factoryAddress, deployments };
+}
+
+export type PlanMismatch = {
+  name: string;
+  planned: string;
+  computed: string; // address returned by `Factory.computeAddress`
+};
+
+/**
+ * Check a plan against the deployed factory's `computeAddress`
+ * @returns the deployments whose planned address differs from the factory's, empty if the plan is correct
+ */
+export async function verifyPlan(plan: Create2Plan, factory: Factory): Promise<PlanMismatch[]> {
+  const factoryAddress = await factory.getAddress();
+  if (getAddress(factoryAddress) !== getAddress(plan.factoryAddress)) {
+    throw new Error(`plan is for factory ${plan.factoryAddress}, not ${factoryAddress}`);
+  }
+  const mismatches: PlanMismatch[] = [];
+  for (const { name, salt, creationCodeHash, address } of plan.deployments) {
+    const computed = await factory.computeAddress(salt, creationCodeHash);
+    // plans may come from configs or RPCs that do not checksum addresses
+    if (getAddress(computed) !== getAddress(address)) {
+      mismatches.push({ name, planned: address, computed });
+    }
+  }
+  return mismatches;
+}
+
+/**
+ * Names of the planned contracts that already have code at their planned address
+ */
+export async function findDeployed(plan: Create2Plan, runner: ContractRunner): Promise<string[]> {
+  const deployed: string[] = [];
+  for (const { name, address } of plan.deployments) {
+    if ((await runner.provider!.getCode(address)) !== "0x") {
+      deployed.push(name);
+    }
+  }
+  return deployed;
+}
+
+/**
+ * A salt that does not resolve to one address per contract across the planned chains
+ */
+export type SaltCollision = {
+  salt: `0x${string}`;
+  // "contracts": the salt is used for more than one contract, so at most one of them can be deployed at the address
+  // "creationCode": the same contract has different creation code on some chains, so its address differs per chain
+  kind: "contracts" | "creationCode";
+  deployments: { chainId: bigint; name: string; address: string }[];
+};
+
+/**
+ * Find salts that are reused for different contracts, or for creation code that differs between chains
+ */
+export function findSaltCollisions(plans: Create2Plan[]): SaltCollision[] {
+  const bySalt = new Map<string, { chainId: bigint; deployment: Create2Deployment }[]>();
+  for (const { chainId, deployments } of plans) {
+    for (const deployment of deployments) {
+      const entries = bySalt.get(deployment.salt) ?? [];
+      entries.push({ chainId, deployment });
+      bySalt.set(deployment.salt, entries);
+    }
+  }
+
+  const collisions: SaltCollision[] = [];
+  for (const [salt, entries] of bySalt) {
+    const names = new Set(entries.map(({ deployment }) => deployment.name));
+    const codeHashes = new Set(entries.map(({ deployment }) => deployment.creationCodeHash));
+    if (names.size === 1 && codeHashes.size === 1) {
+      continue;
+    }
+    collisions.push({
+      salt: salt as `0x${string}`,
+      kind: names.size > 1 ? "contracts" : "creationCode",
+      deployments: entries.map(({ chainId, deployment: { name, address } }) => ({ chainId, name, address })),
+    });
+  }
+  return collisions;
+}
@@ -0,0 +1,2 @@
+export * from "./create2";
+export * from "./address-book";
@@ -0,0 +1,275 @@
+import {
+  ISignatureReceiver__factory,
+  RandomnessSender,
+  RandomnessSender__factory,
+  SignatureSender,
+  SignatureSender__factory,
+} from "../../../../typechain-types";
+import { decodeRevertData, UnknownRevertError } from "../errors";
+import { DEFAULT_BATCH_SIZE } from "../indexer";
+import { CallTrace, failurePath, FailureKind, flattenCalls, forkAt, traceTransaction } from "./trace";
+import { mkdirSync, writeFileSync } from "fs";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { join } from "path";
+
+const RECEIVE_SIGNATURE = ISignatureReceiver__factory.createInterface().getFunction("receiveSignature").selector;
+
+export type DiagnosisOpts = {
+  fork?: string; // RPC url of the chain the requests are on; each fulfillment is replayed on a fork of its parent block
+  fromBlock?: number; // first block to search for failed fulfillments in, defaults to 0
+  batchSize?: number; // blocks per `eth_getLogs` call, to stay within RPC range limits
+};
+
+/**
+ * Where and why a call failed
+ */
+export type FailureLocation = {
+  account: string; // the contract whose code failed
+  function?: string;
+  failure: FailureKind;
+  reason: string; // the decoded revert, or the EVM error
+  hint: string;
+  revertData?: string;
+  gasLimit: number;
+  gasUsed: number;
+};
+
+export type ErroredRequestReport = {
+  requestId: bigint;
+  callback: string; // the SignatureSender's callback, the RandomnessSender for randomness requests
+  consumer: string; // the randomness requester, or the callback for plain signature requests
+  transactionHash: string; // the latest fulfillment attempt
+  blockNumber: number;
+  cause: FailureLocation; // the frame whose failure made the callback fail
+  insideConsumer: boolean;
+  // the consumer's own failure if it was caught, e.g. a randomness callback that ran out of gas before payment failed
+  consumerFailure?: FailureLocation;
+  path: string[]; // calls the failure bubbled up through, from the callback to the cause
+};
+
+type FailedFulfillment = {
+  requestId: bigint;
+  callback: string;
+  consumer: string;
+  transactionHash: string;
+  blockNumber: number;
+};
+
+/**
+ * Explains why SignatureSender callbacks failed by replaying the fulfillment transactions with hardhat-tracer
+ */
+export class ErroredRequestDiagnoser {
+  /**
+   * @param hre a runtime environment on the Hardhat network, with hardhat-tracer loaded
+   * @param signatureSender the SignatureSender proxy, connected to the Hardhat network
+   * @param randomnessSender the RandomnessSender proxy, to attribute randomness requests to their requester
+   * @param opts diagnosis options
+   */
+  constructor(
+    private readonly hre: HardhatRuntimeEnvironment,
+    private readonly signatureSender: SignatureSender,
+    private readonly randomnessSender?: RandomnessSender,
+    private readonly opts: DiagnosisOpts = {},
+  ) {}
+
+  /**
+   * Diagnose every request in the SignatureSender's errored set
+   * @returns a report per request, in the order the SignatureSender lists them
+   */
+  public async diagnoseAll(): Promise<ErroredRequestReport[]> {
+    await this.forkLatest();
+    const ids = await this.signatureSender.getAllErroredRequestIds();
+    // look everything up before replaying, as replaying on a fork moves the network back to the fulfillment block
+    const failures = [];
+    for (const id of ids) {
+      failures.push(await this.failedFulfillment(id));
+    }
+
+    const reports = [];
+    for (const failure of failures) {
+      reports.push(await this.replay(failure));
+    }
+    return reports;
+  }
+
+  /**
+   * Diagnose one errored request
+   * @param requestId the request id
+   * @throws if the request's callback has not failed
+   */
+  public async diagnose(requestId: bigint): Promise<ErroredRequestReport> {
+    await this.forkLatest();
+    if (!(await this.signatureSender.hasErrored(requestId))) {
+      throw new Error(`request ${requestId} has not errored`);
+    }
+    return this.replay(await this.failedFulfillment(requestId));
+  }
+
+  private async failedFulfillment(requestId: bigint): Promise<FailedFulfillment> {
+    const fromBlock = this.opts.fromBlock ?? 0;
+    const batchSize = this.opts.batchSize ?? DEFAULT_BATCH_SIZE;
+    const filter = this.signatureSender.filters.SignatureCallbackFailed(requestId);
+    let latest: { transactionHash: string; blockNumber: number } | undefined;
+    // only the latest attempt is replayed, so the range is scanned down from the head
+    const head = await this.signatureSender.runner!.provider!.getBlockNumber();
+    for (let to = head; to >= fromBlock && !latest; to -= batchSize) {
+      const events = await this.signatureSender.queryFilter(filter, Math.max(to - batchSize + 1, fromBlock), to);
+      latest = events[events.length - 1];
+    }
+    if (!latest) {
+      throw new Error(`no SignatureCallbackFailed event for request ${requestId} since block ${fromBlock}`);
+    }
+
+    const { callback } = await this.signatureSender.getRequest(requestId);
+    let consumer = callback;
+    const randomnessSender = await this.randomnessSender?.getAddress();
+    if (randomnessSender?.toLowerCase() === callback.toLowerCase()) {
+      ({ callback: consumer } = await this.randomnessSender!.getRequest(requestId));
+    }
+    return {
+      requestId,
+      callback,
+      consumer,
+      transactionHash: latest.transactionHash,
+      blockNumber: latest.blockNumber,
+    };
+  }
+
+  private async replay(failed: FailedFulfillment): Promise<ErroredRequestReport> {
+    const top = await traceTransaction(this.hre, failed.transactionHash, this.opts.fork);
+    const signatureSender = (await this.signatureSender.getAddress()).toLowerCase();
+    const callback = failed.callback.toLowerCase();
+    const consumer = failed.consumer.toLowerCase();
+
+    const callbackCall = flattenCalls(top).find(
+      (call) =>
+        call.opcode === "CALL" &&
+        !call.success &&
+        call.from === signatureSender &&
+        call.to === callback &&
+        call.inputData.startsWith(RECEIVE_SIGNATURE) &&
+        BigInt(`0x${call.inputData.slice(10, 74)}`) === failed.requestId,
+    );
+    if (!callbackCall) {
+      throw new Error(`no failed callback for request ${failed.requestId} in ${failed.transactionHash}`);
+    }
+
+    const path = failurePath(callbackCall);
+    const cause = path[path.length - 1];
+    const consumerCall = flattenCalls(callbackCall).find(
+      (call) => !call.success && call.account === consumer && call.opcode !== "DELEGATECALL",
+    );
+    const consumerCause = consumerCall && failurePath(consumerCall).pop()!;
+
+    return {
+      ...failed,
+      cause: await this.locate(cause, consumer),
+      insideConsumer: cause.account === consumer,
+      consumerFailure:
+        consumerCause && consumerCause !== cause ? await this.locate(consumerCause, consumer) : undefined,
+      path: path.map((call) => `${call.opcode} ${call.account} ${call.function ?? call.inputData.slice(0, 10)}`),
+    };
+  }
+
+  private async locate(call: CallTrace, consumer: string): Promise<FailureLocation> {
+    const location = {
+      account: call.account,
+      function: call.function,
+      failure: call.failure!,
+      gasLimit: call.gasLimit,
+      gasUsed: call.gasUsed,
+    };
+    if (call.failure === "outOfGas") {
+      return {
+        ...location,
+        reason: "out of gas",
+        hint:
+          call.account === consumer
+            ? `the callback needs more than its ${call.gasLimit} gas, request with a higher callbackGasLimit`
+            : `the call ran out of its ${call.gasLimit} gas, fulfill with a higher transaction gas limit`,
+      };
+    }
+    if (call.failure === "exception") {
+      return {
+        ...location,
+        reason: call.error ?? "exception",
+        hint: "the EVM aborted the call, e.g. an invalid opcode",
+      };
+    }
+
+    const revert = decodeRevertData(call.returnData);
+    if (!(revert instanceof UnknownRevertError)) {
+      return { ...location, reason: revert.reason, hint: revert.hint, revertData: call.returnData };
+    }
+    if (call.returnData === "0x") {
+      return {
+        ...location,
+        reason: "revert without data",
+        hint: "the contract reverted without a reason, e.g. a bare `revert()` or `require` without a message",
+        revertData: call.returnData,
+      };
+    }
+    return { ...location, ...(await this.decodeConsumerError(call.returnData)), revertData: call.returnData };
+  }
+
+  // errors declared by other contracts, e.g. the consumer, are looked up in the compiled artifacts
+  private async decodeConsumerError(data: string): Promise<Pick<FailureLocation, "reason" | "hint">> {
+    try {
+      const { fragment, contractName } = await this.hre.tracer.decoder!.decodeError(data);
+      return { reason: fragment.format(), hint: `custom error declared by ${contractName}` };
+    } catch {
+      return { reason: "unknown", hint: `reverted with data no compiled contract declares: ${data}` };
+    }
+  }
+
+  private async forkLatest(): Promise<void> {
+    if (this.opts.fork) {
+      await forkAt(this.hre, this.opts.fork);
+      // calls in the fork block itself run with the remote chain's hardfork history, which Hardhat only has for a few
+      // chains, so the reads are made in a new local block instead
+      await this.hre.network.provider.send("hardhat_mine", ["0x1"]);
+    }
+  }
+}
+
+/**
+ * Write one `request-<id>.json` report per request
+ * @returns the paths written
+ */
+export function writeErroredRequestReports(reports: ErroredRequestReport[], outDir: string): string[] {
+  mkdirSync(outDir, { recursive: true });
+  return reports.map((report) => {
+    const path = join(outDir, `request-${report.requestId}.json`);
+    writeFileSync(
+      path,
+      `${JSON.stringify(report, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2)}\n`,
+    );
+    return path;
+  });
+}
+
+// Diagnose the errored requests of a deployment:
+// npx ts-node test/hardhat/helpers/diagnostics/errored-requests.ts <rpcUrl> <signatureSender> [randomnessSender] [outDir]
+if (require.main === module) {
+  (async () => {
+    const [fork, signatureSenderAddress, randomnessSenderAddress, outDir = "errored-requests"] = process.argv.slice(2);
+    if (!fork || !signatureSenderAddress) {
+      throw new Error("usage: errored-requests.ts <rpcUrl> <signatureSender> [randomnessSender] [outDir]");
+    }
+    // contracts are read through the local fork of the chain, which the diagnoser creates
+    const hre: HardhatRuntimeEnvironment = require("hardhat");
+    const signatureSender = SignatureSender__factory.connect(signatureSenderAddress, hre.ethers.provider);
+    const randomnessSender = randomnessSenderAddress
+      ? RandomnessSender__factory.connect(randomnessSenderAddress, hre.ethers.provider)
+      : undefined;
+
+    const diagnoser = new ErroredRequestDiagnoser(hre, signatureSender, randomnessSender, { fork });
+    const reports = await diagnoser.diagnoseAll();
+    for (const [i, path] of writeErroredRequestReports(reports, outDir).entries()) {
+      console.log(`${path}: ${reports[i].cause.reason} in ${reports[i].cause.account}`);
+    }
+  })().catch((err) => {
+    console.error(err.message);
+    process.exitCode = 1;
+  });
+}
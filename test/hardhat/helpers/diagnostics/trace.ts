@@ -0,0 +1,240 @@
+import { JsonRpcProvider, toQuantity, TransactionResponse } from "ethers";
+import type { CallItem, Item } from "hardhat-tracer";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const CALL_OPCODES = ["CALL", "STATICCALL", "DELEGATECALL", "CALLCODE", "CREATE", "CREATE2"];
+
+export type FailureKind = "revert" | "outOfGas" | "exception";
+
+/**
+ * One message call of a traced transaction, as recorded by hardhat-tracer
+ */
+export type CallTrace = {
+  opcode: string;
+  from: string;
+  to: string;
+  account: string; // whose code runs in this frame; for a DELEGATECALL the account the code is borrowed by
+  inputData: string;
+  function?: string; // signature of a failed call, from the compiled artifacts or hardhat-tracer's 4byte lookup
+  gasLimit: number;
+  gasUsed: number;
+  success: boolean;
+  returnData: string;
+  failure?: FailureKind;
+  error?: string; // the EVM error for failures other than a revert, e.g. OUT_OF_GAS
+  calls: CallTrace[];
+};
+
+/**
+ * Replay a mined transaction with hardhat-tracer and return its call tree
+ * @param hre a runtime environment on the Hardhat network, with hardhat-tracer loaded
+ * @param hash the transaction to replay
+ * @param fork the RPC url of the chain the transaction was mined on, if it is not the local network
+ * @returns the top level call
+ * @throws if hardhat-tracer is not loaded or the transaction cannot be traced
+ */
+export async function traceTransaction(
+  hre: HardhatRuntimeEnvironment,
+  hash: string,
+  fork?: string,
+): Promise<CallTrace> {
+  if (!hre.tracer?.switch) {
+    throw new Error('hardhat-tracer is not loaded, add `require("hardhat-tracer")` to the Hardhat config');
+  }
+  if (fork) {
+    return replayOnFork(hre, hash, fork);
+  }
+
+  const tx = await hre.network.provider.send("eth_getTransactionByHash", [hash]);
+  if (!tx) {
+    throw new Error(`transaction ${hash} is not on the local network`);
+  }
+  return record(hre, tx.input, () => hre.network.provider.send("debug_traceTransaction", [hash]));
+}
+
+/**
+ * Reset the Hardhat network to a fork of another chain, keeping hardhat-tracer attached
+ * @param hre a runtime environment on the Hardhat network
+ * @param url the RPC url of the chain to fork
+ * @param blockNumber the block to fork at, defaults to the latest
+ */
+export async function forkAt(hre: HardhatRuntimeEnvironment, url: string, blockNumber?: number): Promise<void> {
+  await reset(hre, { forking: { jsonRpcUrl: url, blockNumber } });
+}
+
+/**
+ * Reset the Hardhat network to a new local chain, e.g. once done with a fork, keeping hardhat-tracer attached
+ * @param hre a runtime environment on the Hardhat network
+ */
+export async function resetNetwork(hre: HardhatRuntimeEnvironment): Promise<void> {
+  await reset(hre);
+}
+
+/**
+ * Follow a failed call down to the frame the failure started in, through the calls that bubbled up its revert
+ * @param call a failed call
+ * @returns the failed frames from `call` to the one that caused the failure
+ */
+export function failurePath(call: CallTrace): CallTrace[] {
+  const path = [call];
+  for (let frame = call; frame.failure === "revert"; ) {
+    // a revert is only bubbled up right after the call that produced it returns
+    const last = frame.calls[frame.calls.length - 1];
+    if (!last || last.success || last.returnData !== frame.returnData) {
+      break;
+    }
+    path.push(last);
+    frame = last;
+  }
+  return path;
+}
+
+/**
+ * Every call in the tree, depth first
+ */
+export function flattenCalls(call: CallTrace): CallTrace[] {
+  return [call, ...call.calls.flatMap(flattenCalls)];
+}
+
+async function reset(hre: HardhatRuntimeEnvironment, params?: object): Promise<void> {
+  await hre.network.provider.send("hardhat_reset", params ? [params] : []);
+  // the reset replaces the VM the recorder listens to. hardhat-tracer does not export `addRecorder`, so it comes from
+  // the package's build output, which is why package.json pins hardhat-tracer to an exact version. Loaded lazily as
+  // the module registers the plugin with the Hardhat context, which only exists once Hardhat is loaded
+  const tracer: { addRecorder?: (hre: HardhatRuntimeEnvironment) => Promise<void> } = await import(
+    "hardhat-tracer/dist/src/extend/hre"
+  ).catch(() => ({}));
+  if (typeof tracer.addRecorder !== "function") {
+    // without it, forked blocks would be replayed without recording a trace
+    throw new Error(
+      "hardhat-tracer/dist/src/extend/hre no longer exports addRecorder: check the hardhat-tracer version pinned in package.json",
+    );
+  }
+  await tracer.addRecorder(hre);
+}
+
+// Hardhat does not trace transactions in forked blocks, so the block is re-executed on a fork of its parent: the
+// transactions before this one, then this one with the tracer on. The replay runs in later local blocks, with the
+// original base fee so that gas prices and fees match
+async function replayOnFork(hre: HardhatRuntimeEnvironment, hash: string, url: string): Promise<CallTrace> {
+  const remote = new JsonRpcProvider(url);
+  try {
+    const tx = await remote.getTransaction(hash);
+    if (!tx?.blockNumber) {
+      throw new Error(`transaction ${hash} is not mined on ${url}`);
+    }
+    const block = await remote.getBlock(tx.blockNumber, true);
+    if (!block) {
+      throw new Error(`block ${tx.blockNumber} is not available on ${url}`);
+    }
+
+    await forkAt(hre, url, block.number - 1);
+    for (const prior of block.prefetchedTransactions.slice(0, tx.index)) {
+      try {
+        await resend(hre, prior, block.baseFeePerGas);
+      } catch {
+        // reverted transactions are still mined, and their effects on the sender's nonce and balance kept
+      }
+    }
+    return await record(hre, tx.data, () => resend(hre, tx, block.baseFeePerGas));
+  } finally {
+    remote.destroy();
+  }
+}
+
+async function resend(hre: HardhatRuntimeEnvironment, tx: TransactionResponse, baseFee: bigint | null): Promise<void> {
+  const fees =
+    tx.maxFeePerGas === null
+      ? { gasPrice: toQuantity(tx.gasPrice) }
+      : { maxFeePerGas: toQuantity(tx.maxFeePerGas), maxPriorityFeePerGas: toQuantity(tx.maxPriorityFeePerGas ?? 0) };
+  if (baseFee !== null) {
+    await hre.network.provider.send("hardhat_setNextBlockBaseFeePerGas", [toQuantity(baseFee)]);
+  }
+  await hre.network.provider.send("hardhat_impersonateAccount", [tx.from]);
+  try {
+    await hre.network.provider.send("eth_sendTransaction", [
+      { from: tx.from, to: tx.to, data: tx.data, value: toQuantity(tx.value), gas: toQuantity(tx.gasLimit), ...fees },
+    ]);
+  } finally {
+    await hre.network.provider.send("hardhat_stopImpersonatingAccount", [tx.from]);
+  }
+}
+
+// run a request with the tracer on, returning the trace of the transaction it executed
+async function record(
+  hre: HardhatRuntimeEnvironment,
+  input: string,
+  execute: () => Promise<unknown>,
+): Promise<CallTrace> {
+  // traces are only kept while the tracer is enabled, which Hardhat tasks do but plain scripts do not
+  const enabled = hre.tracer.enabled;
+  hre.tracer.enabled = true;
+  await hre.tracer.switch!.enable();
+  try {
+    await execute();
+  } finally {
+    await hre.tracer.switch!.disable();
+    hre.tracer.enabled = enabled;
+  }
+
+  const top = hre.tracer.lastTrace()?.top;
+  if (!top || top.params.inputData?.toLowerCase() !== input.toLowerCase()) {
+    throw new Error("hardhat-tracer recorded no trace for the transaction");
+  }
+  return toCallTrace(hre, top, top.params.from);
+}
+
+async function toCallTrace(hre: HardhatRuntimeEnvironment, item: CallItem, caller: string): Promise<CallTrace> {
+  const { params } = item;
+  const to = (params.to ?? (params as { deployedAddress?: string }).deployedAddress ?? "").toLowerCase();
+  const account = item.opcode === "DELEGATECALL" || item.opcode === "CALLCODE" ? caller : to;
+  const inputData = params.inputData ?? (params as { initCode?: string }).initCode ?? "0x";
+  const returnData = params.returnData ?? "0x";
+  const children = item.children ?? [];
+
+  const calls: CallTrace[] = [];
+  for (const child of children) {
+    if (CALL_OPCODES.includes(child.opcode)) {
+      calls.push(await toCallTrace(hre, child as CallItem, account));
+    }
+  }
+
+  const call: CallTrace = {
+    opcode: item.opcode,
+    from: params.from.toLowerCase(),
+    to,
+    account,
+    inputData,
+    gasLimit: params.gasLimit,
+    gasUsed: params.gasUsed ?? 0,
+    success: params.success ?? true,
+    returnData,
+    calls,
+  };
+  if (!call.success) {
+    // only failed calls are decoded, hardhat-tracer looks unknown selectors up remotely
+    Object.assign(call, failureOf(params.exception, children), { function: await decodeFunction(hre, inputData) });
+  }
+  return call;
+}
+
+function failureOf(exception: string | undefined, children: Item<unknown>[]): Pick<CallTrace, "failure" | "error"> {
+  // hardhat-tracer records an EXCEPTION item for every failure but a revert
+  if (!children.some((child) => child.opcode === "EXCEPTION")) {
+    return { failure: "revert" };
+  }
+  return { failure: exception === "OUT_OF_GAS" ? "outOfGas" : "exception", error: exception };
+}
+
+async function decodeFunction(hre: HardhatRuntimeEnvironment, inputData: string): Promise<string | undefined> {
+  if (inputData.length < 10 || !hre.tracer.decoder) {
+    return undefined;
+  }
+  try {
+    const { fragment } = await hre.tracer.decoder.decodeFunction(inputData, "0x");
+    return fragment.format();
+  } catch {
+    // no compiled contract has the selector
+    return undefined;
+  }
+}
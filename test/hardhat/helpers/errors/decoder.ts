@@ -0,0 +1,129 @@
+import {
+  Factory__factory,
+  RandomnessSender__factory,
+  SignatureSender__factory,
+  SubscriptionAPI__factory,
+} from "../../../../typechain-types";
+import {
+  AccessControlUnauthorizedAccountError,
+  BalanceInvariantViolatedError,
+  Create2EmptyBytecodeError,
+  Create2FailedDeploymentError,
+  CustomRevertError,
+  FailedToSendNativeError,
+  IndexOutOfRangeError,
+  InsufficientBalanceError,
+  InvalidCalldataError,
+  InvalidConsumerError,
+  InvalidInitializationError,
+  InvalidSubscriptionError,
+  MustBeRequestedOwnerError,
+  MustBeSubOwnerError,
+  PendingRequestExistsError,
+  ReentrancyGuardReentrantCallError,
+  RequireRevertError,
+  RevertError,
+  TooManyConsumersError,
+  UnknownRevertError,
+  PanicRevertError,
+} from "./errors";
+import { ErrorFragment, Interface, isHexString, Result } from "ethers";
+
+// every custom error the stack can revert with, deduplicated as the contracts share most of them
+const REVERTS = new Interface(
+  [
+    ...SubscriptionAPI__factory.abi,
+    ...RandomnessSender__factory.abi,
+    ...SignatureSender__factory.abi,
+    ...Factory__factory.abi,
+  ]
+    .filter((fragment) => fragment.type === "error")
+    .map((fragment) => ErrorFragment.from(fragment))
+    .filter((fragment, i, all) => all.findIndex((f) => f.selector === fragment.selector) === i),
+);
+
+// `require` failures and panics
+const BUILTIN_REVERTS = new Interface(["error Error(string)", "error Panic(uint256)"]);
+
+const CUSTOM_ERRORS: Record<string, (args: Result, data: string) => RevertError> = {
+  TooManyConsumers: (_, data) => new TooManyConsumersError(data),
+  InsufficientBalance: (_, data) => new InsufficientBalanceError(data),
+  InvalidConsumer: (args, data) => new InvalidConsumerError(args.subId, args.consumer, data),
+  InvalidSubscription: (_, data) => new InvalidSubscriptionError(data),
+  InvalidCalldata: (_, data) => new InvalidCalldataError(data),
+  MustBeSubOwner: (args, data) => new MustBeSubOwnerError(args.owner, data),
+  MustBeRequestedOwner: (args, data) => new MustBeRequestedOwnerError(args.proposedOwner, data),
+  BalanceInvariantViolated: (args, data) =>
+    new BalanceInvariantViolatedError(args.internalBalance, args.externalBalance, data),
+  FailedToSendNative: (_, data) => new FailedToSendNativeError(data),
+  IndexOutOfRange: (_, data) => new IndexOutOfRangeError(data),
+  PendingRequestExists: (_, data) => new PendingRequestExistsError(data),
+  Create2EmptyBytecode: (_, data) => new Create2EmptyBytecodeError(data),
+  Create2FailedDeployment: (_, data) => new Create2FailedDeploymentError(data),
+  AccessControlUnauthorizedAccount: (args, data) =>
+    new AccessControlUnauthorizedAccountError(args.account, args.neededRole, data),
+  InvalidInitialization: (_, data) => new InvalidInitializationError(data),
+  ReentrancyGuardReentrantCall: (_, data) => new ReentrancyGuardReentrantCallError(data),
+};
+
+/**
+ * Decode raw revert data from SubscriptionAPI, RandomnessSender, SignatureSender or Factory
+ * @param data the return data of the reverted call
+ * @returns the matching error, or an `UnknownRevertError` for data none of the contracts produce
+ */
+export function decodeRevertData(data: string): RevertError {
+  const builtin = data.length >= 10 ? BUILTIN_REVERTS.getError(data.slice(0, 10)) : null;
+  if (builtin) {
+    const [value] = BUILTIN_REVERTS.decodeErrorResult(builtin, data);
+    return builtin.name === "Error" ? new RequireRevertError(value, data) : new PanicRevertError(value, data);
+  }
+
+  let parsed;
+  try {
+    parsed = REVERTS.parseError(data);
+  } catch {
+    // the selector matches but the arguments do not decode
+  }
+  if (!parsed) {
+    return new UnknownRevertError(data);
+  }
+  const decode = CUSTOM_ERRORS[parsed.name];
+  return decode ? decode(parsed.args, data) : new CustomRevertError(parsed.signature, [...parsed.args], data);
+}
+
+/**
+ * Decode the revert behind an error thrown by ethers or the Hardhat network
+ * @param err anything thrown by a contract call, transaction or gas estimate
+ * @returns the decoded revert, or undefined if the error does not carry revert data
+ */
+export function decodeRevert(err: unknown): RevertError | undefined {
+  if (err instanceof RevertError) {
+    return err;
+  }
+  const data = revertData(err);
+  return data === undefined ? undefined : decodeRevertData(data);
+}
+
+/**
+ * Await a contract call, rethrowing reverts as decoded errors
+ */
+export async function withDecodedRevert<T>(call: Promise<T>): Promise<T> {
+  try {
+    return await call;
+  } catch (err) {
+    throw decodeRevert(err) ?? err;
+  }
+}
+
+// ethers puts the data on CALL_EXCEPTION errors, Hardhat on the provider error, and some providers nest it under
+// the JSON-RPC error
+function revertData(err: unknown): string | undefined {
+  for (let e = err, depth = 0; e && typeof e === "object" && depth < 4; depth++) {
+    const { data, error, info } = e as { data?: unknown; error?: unknown; info?: { error?: unknown } };
+    if (typeof data === "string" && isHexString(data)) {
+      return data;
+    }
+    e = error ?? info?.error;
+  }
+  return undefined;
+}
@@ -0,0 +1,291 @@
+/**
+ * A revert from one of the randomness stack contracts, decoded from its raw return data
+ */
+export class RevertError extends Error {
+  /**
+   * @param reason the custom error signature or require string the contract reverted with
+   * @param summary what went wrong, in terms of the decoded fields
+   * @param hint how to avoid the revert
+   * @param data the raw revert data
+   */
+  constructor(
+    public readonly reason: string,
+    summary: string,
+    public readonly hint: string,
+    public readonly data: string,
+  ) {
+    super(`${summary} (${reason}); ${hint}`);
+    this.name = new.target.name;
+  }
+}
+
+// SubscriptionAPI
+
+export class TooManyConsumersError extends RevertError {
+  constructor(data: string) {
+    super(
+      "TooManyConsumers()",
+      "the subscription already has the maximum number of consumers",
+      "remove an unused consumer or create another subscription",
+      data,
+    );
+  }
+}
+
+export class InsufficientBalanceError extends RevertError {
+  constructor(data: string) {
+    super(
+      "InsufficientBalance()",
+      "the subscription balance does not cover the request price",
+      "fund the subscription with fundSubscriptionWithNative",
+      data,
+    );
+  }
+}
+
+export class InvalidConsumerError extends RevertError {
+  constructor(
+    public readonly subId: bigint,
+    public readonly consumer: string,
+    data: string,
+  ) {
+    super(
+      "InvalidConsumer(uint256,address)",
+      `${consumer} is not an active consumer of subscription ${subId}`,
+      "add the consumer with addConsumer first",
+      data,
+    );
+  }
+}
+
+export class InvalidSubscriptionError extends RevertError {
+  constructor(data: string) {
+    super(
+      "InvalidSubscription()",
+      "the subscription does not exist",
+      "check the subscription id; canceled subscriptions cannot be used again",
+      data,
+    );
+  }
+}
+
+export class InvalidCalldataError extends RevertError {
+  constructor(data: string) {
+    super("InvalidCalldata()", "the calldata is malformed", "check the encoded arguments", data);
+  }
+}
+
+export class MustBeSubOwnerError extends RevertError {
+  constructor(
+    public readonly owner: string,
+    data: string,
+  ) {
+    super(
+      "MustBeSubOwner(address)",
+      `only the subscription owner ${owner} may do this`,
+      "send the transaction from the owner account",
+      data,
+    );
+  }
+}
+
+export class MustBeRequestedOwnerError extends RevertError {
+  constructor(
+    public readonly proposedOwner: string,
+    data: string,
+  ) {
+    super(
+      "MustBeRequestedOwner(address)",
+      `only the requested owner ${proposedOwner} may accept the transfer`,
+      "have the current owner call requestSubscriptionOwnerTransfer for this account first",
+      data,
+    );
+  }
+}
+
+export class BalanceInvariantViolatedError extends RevertError {
+  constructor(
+    public readonly internalBalance: bigint,
+    public readonly externalBalance: bigint,
+    data: string,
+  ) {
+    super(
+      "BalanceInvariantViolated(uint256,uint256)",
+      `tracked native balance ${internalBalance} exceeds the contract balance ${externalBalance}`,
+      "this should never happen; stop using the contract and report it to the operators",
+      data,
+    );
+  }
+}
+
+export class FailedToSendNativeError extends RevertError {
+  constructor(data: string) {
+    super(
+      "FailedToSendNative()",
+      "the native transfer to the recipient failed",
+      "use a recipient that accepts native transfers",
+      data,
+    );
+  }
+}
+
+export class IndexOutOfRangeError extends RevertError {
+  constructor(data: string) {
+    super(
+      "IndexOutOfRange()",
+      "the start index is past the last active subscription",
+      "start below the number of active subscriptions",
+      data,
+    );
+  }
+}
+
+export class PendingRequestExistsError extends RevertError {
+  constructor(data: string) {
+    super(
+      "PendingRequestExists()",
+      "a consumer of the subscription still has requests in flight",
+      "wait for pending requests to be fulfilled before canceling or removing consumers",
+      data,
+    );
+  }
+}
+
+// Factory
+
+export class Create2EmptyBytecodeError extends RevertError {
+  constructor(data: string) {
+    super("Create2EmptyBytecode()", "the creation code is empty", "pass the contract's creation code", data);
+  }
+}
+
+export class Create2FailedDeploymentError extends RevertError {
+  constructor(data: string) {
+    super(
+      "Create2FailedDeployment()",
+      "CREATE2 deployment failed",
+      "the salt is probably already used for this creation code, or the constructor reverted",
+      data,
+    );
+  }
+}
+
+// OpenZeppelin base contracts
+
+export class AccessControlUnauthorizedAccountError extends RevertError {
+  constructor(
+    public readonly account: string,
+    public readonly neededRole: string,
+    data: string,
+  ) {
+    super(
+      "AccessControlUnauthorizedAccount(address,bytes32)",
+      `${account} is missing role ${neededRole}`,
+      "send the transaction from an admin account",
+      data,
+    );
+  }
+}
+
+export class InvalidInitializationError extends RevertError {
+  constructor(data: string) {
+    super(
+      "InvalidInitialization()",
+      "the contract is already initialized",
+      "initialize proxies once, and never the implementation directly",
+      data,
+    );
+  }
+}
+
+export class ReentrancyGuardReentrantCallError extends RevertError {
+  constructor(data: string) {
+    super(
+      "ReentrancyGuardReentrantCall()",
+      "the call re-entered a non-reentrant function",
+      "do not call back into the contract from a callback or receive function",
+      data,
+    );
+  }
+}
+
+/**
+ * A custom error without a dedicated class, e.g. one of the proxy errors
+ */
+export class CustomRevertError extends RevertError {
+  constructor(
+    reason: string,
+    public readonly args: unknown[],
+    data: string,
+  ) {
+    super(reason, `reverted with ${reason}`, "see the contract source for its meaning", data);
+  }
+}
+
+// Reverts without a custom error
+
+// hints for the require strings of RandomnessSender, SignatureSender and the contracts they inherit from
+const REQUIRE_HINTS: Record<string, string> = {
+  // calculateRequestPriceNative prices at tx.gasprice, which is 0 in an eth_call, so quotes are taken at a given price
+  "Fee too low":
+    "send at least estimateRequestPriceNative(callbackGasLimit, gasPrice) as msg.value, at the gas price of the request",
+  "Callback gasLimit too high": "lower the callback gas limit to the configured maxGasLimit",
+  "Direct funding required for request fulfillment callback": "send a fee with the request or use a subscription",
+  "No active subscription for caller": "add the requester as a consumer of the subscription",
+  "No request for request id": "check the request id",
+  "Invalid Premium Percentage": "use a native premium percentage below PREMIUM_PERCENTAGE_MAX",
+  "Contract is not configured": "have an admin call setConfig",
+  "Contract is disabled": "have an admin call enable",
+  "Cannot set zero address as signature sender": "pass the SignatureSender proxy address",
+  "Grant role failed": "the owner already holds the role; check the initializer arguments",
+  "Grant role reverts": "the owner already holds the role; check the initializer arguments",
+  "Signature scheme not supported": "register the scheme with the SignatureSchemeAddressProvider",
+  "Message failed length bounds check": "use a message of 1 to 4096 bytes",
+  "Condition failed length bounds check": "use a condition of at most 4096 bytes",
+  "Condition bytes cannot be all zeros": "pass an empty condition or a meaningful one",
+  "No request with specified requestID": "the request is unknown or was already fulfilled",
+  "Signature verification failed": "sign the request's message hash with the key of the registered scheme",
+  "Only signatureSender can call": "only the SignatureSender may deliver signatures",
+};
+
+/**
+ * A `require` failure, i.e. an `Error(string)` revert
+ */
+export class RequireRevertError extends RevertError {
+  constructor(
+    public readonly revertString: string,
+    data: string,
+  ) {
+    super(
+      `Error(${JSON.stringify(revertString)})`,
+      revertString,
+      REQUIRE_HINTS[revertString] ?? "see the require statement in the contract source",
+      data,
+    );
+  }
+}
+
+export class PanicRevertError extends RevertError {
+  constructor(
+    public readonly code: bigint,
+    data: string,
+  ) {
+    super(
+      `Panic(${code})`,
+      `panicked with code 0x${code.toString(16)}`,
+      "this is a bug in the contract or its caller",
+      data,
+    );
+  }
+}
+
+export class UnknownRevertError extends RevertError {
+  constructor(data: string) {
+    super(
+      "unknown",
+      data === "0x" ? "reverted without data" : "reverted with unrecognised data",
+      "the revert may come from another contract, or the call ran out of gas",
+      data,
+    );
+  }
+}
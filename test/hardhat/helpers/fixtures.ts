@@ -0,0 +1,87 @@
+import {
+  BN254SignatureScheme,
+  BN254SignatureScheme__factory,
+  RandomnessSender,
+  RandomnessSender__factory,
+  SignatureSchemeAddressProvider,
+  SignatureSchemeAddressProvider__factory,
+  SignatureSender,
+  SignatureSender__factory,
+  UUPSProxy__factory,
+} from "../../../typechain-types";
+import { BlsBn254 } from "./crypto";
+import { DEFAULT_APPLICATION_NAME, FeeConfig } from "./randomness";
+import { Signer, solidityPacked } from "ethers";
+import type { G2 } from "mcl-wasm";
+
+// Same billing configuration as the Foundry `Deployment` base test
+export const DEFAULT_FEE_CONFIG: FeeConfig = {
+  maxGasLimit: 500_000n,
+  gasAfterPaymentCalculation: 400_000n,
+  fulfillmentFlatFeeNativePPM: 1_000_000n,
+  weiPerUnitGas: 3_000_000n,
+  blsPairingCheckOverhead: 800_000n,
+  nativePremiumPercentage: 10n,
+  gasForCallExactCheck: 5000n,
+};
+
+export type RandomnessStack = {
+  signatureSchemeAddressProvider: SignatureSchemeAddressProvider;
+  bn254SignatureScheme: BN254SignatureScheme;
+  signatureSender: SignatureSender;
+  randomnessSender: RandomnessSender;
+};
+
+/**
+ * Encode a G2 public key as expected by the `BN254SignatureScheme` constructor
+ */
+export function publicKeyBytes(bls: BlsBn254, pubKey: G2): string {
+  return solidityPacked(["uint256[4]"], [bls.serialiseG2Point(pubKey)]);
+}
+
+/**
+ * Deploy the BN254 signature scheme, SignatureSender and RandomnessSender behind proxies, as in the Foundry
+ * `Deployment` base test, with `admin` as the owner of every contract
+ */
+export async function deployRandomnessStack(
+  admin: Signer,
+  bls: BlsBn254,
+  pubKey: G2,
+  config: FeeConfig = DEFAULT_FEE_CONFIG,
+): Promise<RandomnessStack> {
+  const adminAddress = await admin.getAddress();
+
+  const signatureSchemeAddressProvider = await new SignatureSchemeAddressProvider__factory(admin).deploy(adminAddress);
+  const bn254SignatureScheme = await new BN254SignatureScheme__factory(admin).deploy(
+    publicKeyBytes(bls, pubKey),
+    DEFAULT_APPLICATION_NAME,
+  );
+  await signatureSchemeAddressProvider.updateSignatureScheme("BN254", await bn254SignatureScheme.getAddress());
+
+  const signatureSenderImplementation = await new SignatureSender__factory(admin).deploy();
+  const signatureSenderProxy = await new UUPSProxy__factory(admin).deploy(
+    await signatureSenderImplementation.getAddress(),
+    "0x",
+  );
+  const signatureSender = SignatureSender__factory.connect(await signatureSenderProxy.getAddress(), admin);
+  await signatureSender.initialize(adminAddress, await signatureSchemeAddressProvider.getAddress());
+
+  const randomnessSenderImplementation = await new RandomnessSender__factory(admin).deploy();
+  const randomnessSenderProxy = await new UUPSProxy__factory(admin).deploy(
+    await randomnessSenderImplementation.getAddress(),
+    "0x",
+  );
+  const randomnessSender = RandomnessSender__factory.connect(await randomnessSenderProxy.getAddress(), admin);
+  await randomnessSender.initialize(await signatureSender.getAddress(), adminAddress);
+  await randomnessSender.setConfig(
+    config.maxGasLimit,
+    config.gasAfterPaymentCalculation,
+    config.fulfillmentFlatFeeNativePPM,
+    config.weiPerUnitGas,
+    config.blsPairingCheckOverhead,
+    config.nativePremiumPercentage,
+    config.gasForCallExactCheck,
+  );
+
+  return { signatureSchemeAddressProvider, bn254SignatureScheme, signatureSender, randomnessSender };
+}
@@ -0,0 +1,262 @@
+import { RandomnessSender, SignatureSender } from "../../../../typechain-types";
+import { BlsBn254 } from "../crypto";
+import { encodeSignature, signMessageHash } from "./base";
+import { assertSchemeKey } from "./local";
+import { mine, takeSnapshot } from "@nomicfoundation/hardhat-network-helpers";
+import { ContractTransactionReceipt } from "ethers";
+import type { Fr } from "mcl-wasm";
+
+export type AdversarialMode =
+  | "invalidSignature"
+  | "outOfOrder"
+  | "late"
+  | "twice"
+  | "tightGasLimit"
+  | "coveredGasPrice";
+
+/**
+ * One `fulfillSignatureRequest` transaction submitted by the adversarial fulfiller
+ */
+export type FulfillmentAttempt = {
+  signature: `0x${string}`;
+  transactionHash?: string; // unset if the transaction was rejected before being mined
+  reverted: boolean;
+  revertReason?: string;
+  randomnessCallbackFailed: boolean; // RandomnessSender emitted `RandomnessCallbackFailed`
+  signatureCallbackFailed: boolean; // SignatureSender emitted `SignatureCallbackFailed`
+};
+
+/**
+ * How the contracts reacted to an adversarial fulfillment of one request
+ */
+export type AdversarialReport = {
+  mode: AdversarialMode;
+  requestId: bigint;
+  attempts: FulfillmentAttempt[];
+  hasErrored: boolean; // `SignatureSender.hasErrored` after the last attempt
+  isInFlight: boolean; // `SignatureSender.isInFlight` after the last attempt
+  delivered: boolean; // the randomness callback succeeded in one of the attempts
+};
+
+export type LateFulfillmentOpts = {
+  blocks?: number; // blocks to mine before fulfilling, defaults to 256
+  seconds?: number; // seconds between the mined blocks, defaults to 12
+};
+
+export type TightGasLimitOpts = {
+  gasPrice?: bigint; // gas price of the fulfillment, defaults to the network's gas price; passed through as is
+  gasLimit?: bigint; // gas limit of the fulfillment, defaults to the estimate for the transaction
+};
+
+/**
+ * Report of `fulfillAroundCoveredGasPrice`
+ */
+export type CoveredGasPriceReport = AdversarialReport & {
+  coveredGasPrice: bigint; // highest fulfillment gas price the subscription balance or prepaid fee covers
+};
+
+/**
+ * Fulfills requests on local Hardhat networks the way a hostile or flaky network could, to check how
+ * `RandomnessReceiverBase` consumers hold up. Every mode reports what the RandomnessSender and SignatureSender
+ * recorded for the request rather than throwing when a fulfillment is rejected.
+ */
+export class AdversarialFulfiller {
+  protected constructor(
+    public readonly signatureSender: SignatureSender,
+    public readonly randomnessSender: RandomnessSender,
+    protected readonly bls: BlsBn254,
+    protected readonly secretKey: Fr,
+  ) {}
+
+  /**
+   * Create an adversarial fulfiller, checking that the secret key matches the deployed BN254 signature scheme
+   * @param signatureSender the SignatureSender proxy, connected to the account submitting fulfillments
+   * @param randomnessSender the RandomnessSender proxy the requests were made to
+   * @param bls mcl wrapper
+   * @param secretKey the secret key matching the deployed `BN254SignatureScheme` public key
+   */
+  public static async create(
+    signatureSender: SignatureSender,
+    randomnessSender: RandomnessSender,
+    bls: BlsBn254,
+    secretKey: Fr,
+  ): Promise<AdversarialFulfiller> {
+    await assertSchemeKey(signatureSender, bls, secretKey);
+    return new AdversarialFulfiller(signatureSender, randomnessSender, bls, secretKey);
+  }
+
+  /**
+   * Submit a signature over the wrong message
+   */
+  public async fulfillWithInvalidSignature(requestId: bigint): Promise<AdversarialReport> {
+    const { signature } = this.bls.sign(this.bls.G1, this.secretKey);
+    const attempt = await this.submit(requestId, encodeSignature(this.bls, signature));
+    return this.report("invalidSignature", requestId, [attempt]);
+  }
+
+  /**
+   * Fulfill requests in the reverse of the order given
+   * @param requestIds requests in the order they were made
+   * @returns a report per request, in the order given
+   */
+  public async fulfillOutOfOrder(requestIds: bigint[]): Promise<AdversarialReport[]> {
+    const attempts = new Map<bigint, FulfillmentAttempt>();
+    for (const requestId of [...requestIds].reverse()) {
+      attempts.set(requestId, await this.submit(requestId, await this.sign(requestId)));
+    }
+    return Promise.all(requestIds.map((requestId) => this.report("outOfOrder", requestId, [attempts.get(requestId)!])));
+  }
+
+  /**
+   * Mine blocks and advance time before fulfilling
+   */
+  public async fulfillLate(requestId: bigint, opts: LateFulfillmentOpts = {}): Promise<AdversarialReport> {
+    await mine(opts.blocks ?? 256, { interval: opts.seconds ?? 12 });
+    const attempt = await this.submit(requestId, await this.sign(requestId));
+    return this.report("late", requestId, [attempt]);
+  }
+
+  /**
+   * Fulfill the same request twice with the same valid signature
+   */
+  public async fulfillTwice(requestId: bigint): Promise<AdversarialReport> {
+    const signature = await this.sign(requestId);
+    const first = await this.submit(requestId, signature);
+    const second = await this.submit(requestId, signature);
+    return this.report("twice", requestId, [first, second]);
+  }
+
+  /**
+   * Fulfill with a transaction gas limit that leaves `callbackGasLimit` barely sufficient. The default limit is the
+   * node's gas estimate; pass a lower `gasLimit` to see what a fulfillment short of gas does to the request. Only the
+   * gas limit is tightened; see `fulfillAroundCoveredGasPrice` for the gas price.
+   */
+  public async fulfillWithTightGasLimit(requestId: bigint, opts: TightGasLimitOpts = {}): Promise<AdversarialReport> {
+    const signature = await this.sign(requestId);
+    const gasPrice = opts.gasPrice ?? (await this.signatureSender.runner!.provider!.getFeeData()).gasPrice ?? undefined;
+    const gasLimit =
+      opts.gasLimit ?? (await this.signatureSender.fulfillSignatureRequest.estimateGas(requestId, signature));
+    const attempt = await this.submit(requestId, signature, { gasLimit, gasPrice });
+    return this.report("tightGasLimit", requestId, [attempt]);
+  }
+
+  /**
+   * Fulfill at the highest gas price the request's payment covers, then just above it. A subscription is charged for
+   * the gas the fulfillment used at `tx.gasprice`, so above that price the charge exceeds the balance, the
+   * SignatureSender callback fails with `InsufficientBalance` and the request is left errored. A direct funding
+   * request is charged the fee it prepaid at any gas price, so above the price it was paid for the fulfiller covers
+   * the difference. The fulfillment at the covered price is rolled back so that the one above it runs against the same
+   * balance, and the report describes the request after the second one.
+   */
+  public async fulfillAroundCoveredGasPrice(requestId: bigint): Promise<CoveredGasPriceReport> {
+    const signature = await this.sign(requestId);
+    const coveredGasPrice = await this.coveredGasPrice(requestId, signature);
+
+    const snapshot = await takeSnapshot();
+    const covered = await this.submit(requestId, signature, { gasPrice: coveredGasPrice });
+    await snapshot.restore();
+    const above = await this.submit(requestId, signature, { gasPrice: coveredGasPrice + 1n });
+    return { ...(await this.report("coveredGasPrice", requestId, [covered, above])), coveredGasPrice };
+  }
+
+  protected async sign(requestId: bigint): Promise<`0x${string}`> {
+    const { messageHash } = await this.signatureSender.getRequest(requestId);
+    return signMessageHash(this.bls, messageHash, this.secretKey);
+  }
+
+  // Search the highest gas price, from the network's, at which the request's payment covers the fulfillment
+  private async coveredGasPrice(requestId: bigint, signature: `0x${string}`): Promise<bigint> {
+    const { subId, directFundingFeePaid, callbackGasLimit } = await this.randomnessSender.getRequest(requestId);
+    const covers = async (gasPrice: bigint): Promise<boolean> => {
+      if (subId === 0n) {
+        return (
+          (await this.randomnessSender.estimateRequestPriceNative(callbackGasLimit, gasPrice)) <= directFundingFeePaid
+        );
+      }
+      // the subscription is charged for the gas actually used, so try the fulfillment and roll it back
+      const snapshot = await takeSnapshot();
+      const attempt = await this.submit(requestId, signature, { gasPrice });
+      await snapshot.restore();
+      if (attempt.reverted) {
+        throw new Error(`request ${requestId}: fulfillment at gas price ${gasPrice} reverted: ${attempt.revertReason}`);
+      }
+      return !attempt.signatureCallbackFailed;
+    };
+
+    let low = (await this.signatureSender.runner!.provider!.getFeeData()).gasPrice ?? 1n;
+    if (!(await covers(low))) {
+      throw new Error(`request ${requestId}: the payment does not cover a fulfillment at gas price ${low}`);
+    }
+    let high = low * 2n;
+    while (await covers(high)) {
+      low = high;
+      high *= 2n;
+    }
+    while (high - low > 1n) {
+      const middle = (low + high) / 2n;
+      if (await covers(middle)) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+
+  private async submit(
+    requestId: bigint,
+    signature: `0x${string}`,
+    overrides: { gasLimit?: bigint; gasPrice?: bigint } = {},
+  ): Promise<FulfillmentAttempt> {
+    let transactionHash: string | undefined;
+    try {
+      const tx = await this.signatureSender.fulfillSignatureRequest(requestId, signature, overrides);
+      transactionHash = tx.hash;
+      const receipt = (await tx.wait())!;
+      return { signature, transactionHash, reverted: false, ...this.callbackFailures(receipt) };
+    } catch (err) {
+      return {
+        signature,
+        transactionHash: transactionHash ?? (err as { receipt?: { hash: string } }).receipt?.hash,
+        reverted: true,
+        revertReason: revertReason(err),
+        randomnessCallbackFailed: false,
+        signatureCallbackFailed: false,
+      };
+    }
+  }
+
+  private callbackFailures(receipt: ContractTransactionReceipt) {
+    const names = receipt.logs.map(
+      (log) =>
+        this.signatureSender.interface.parseLog(log)?.name ?? this.randomnessSender.interface.parseLog(log)?.name,
+    );
+    return {
+      randomnessCallbackFailed: names.includes("RandomnessCallbackFailed"),
+      signatureCallbackFailed: names.includes("SignatureCallbackFailed"),
+    };
+  }
+
+  private async report(
+    mode: AdversarialMode,
+    requestId: bigint,
+    attempts: FulfillmentAttempt[],
+  ): Promise<AdversarialReport> {
+    const delivered = await this.randomnessSender.queryFilter(
+      this.randomnessSender.filters.RandomnessCallbackSuccess(requestId),
+    );
+    return {
+      mode,
+      requestId,
+      attempts,
+      hasErrored: await this.signatureSender.hasErrored(requestId),
+      isInFlight: await this.signatureSender.isInFlight(requestId),
+      delivered: delivered.length > 0,
+    };
+  }
+}
+
+function revertReason(err: unknown): string {
+  const { reason, shortMessage, message } = err as { reason?: string; shortMessage?: string; message?: string };
+  return reason ?? shortMessage ?? message ?? String(err);
+}
@@ -0,0 +1,245 @@
+import { SignatureSender } from "../../../../typechain-types";
+import { BlsBn254 } from "../crypto";
+import { BytesLike, ContractTransactionReceipt, hexlify, solidityPacked } from "ethers";
+import type { Fr, G1 } from "mcl-wasm";
+
+// The only scheme local fulfillers can sign for
+export const BN254_SCHEME_ID = "BN254";
+const DEFAULT_POLLING_INTERVAL_MS = 100;
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * A signature request picked up from a `SignatureRequested` event
+ */
+export type PendingSignatureRequest = {
+  requestId: bigint;
+  callback: string;
+  schemeID: string;
+  message: `0x${string}`;
+  messageHash: `0x${string}`;
+  condition: `0x${string}`;
+  requestedAt: bigint;
+  blockNumber: number;
+};
+
+export type FulfillmentResult = {
+  request: PendingSignatureRequest;
+  signature: `0x${string}`;
+  transactionHash: string;
+  callbackSucceeded: boolean; // false if the SignatureSender emitted `SignatureCallbackFailed`
+};
+
+export type FulfillerHooks = {
+  // how long to wait before fulfilling a request, in milliseconds
+  delayMs?: number | ((request: PendingSignatureRequest) => number);
+  // reorders the pending requests before the next one is picked, defaults to request order
+  order?: (pending: PendingSignatureRequest[]) => PendingSignatureRequest[];
+  onFulfilled?: (result: FulfillmentResult) => void;
+  // called when a background step fails, the failed request is retried after the other pending requests
+  onError?: (error: unknown) => void;
+};
+
+export type FulfillerOpts = {
+  hooks?: FulfillerHooks;
+  pollingIntervalMs?: number;
+  fromBlock?: number; // first block to watch for requests, defaults to the latest block when created
+  maxAttempts?: number; // fulfillments tried per request before it is dropped, defaults to 3
+};
+
+/**
+ * Sign a `messageHash` from a BN254 signature request, encoded as expected by `fulfillSignatureRequest`
+ * @param bls mcl wrapper
+ * @param messageHash the hashed message point, encoded as abi.encodePacked(x, y)
+ * @param secretKey the signing key
+ * @returns the signature, encoded as abi.encodePacked(x, y)
+ */
+export function signMessageHash(bls: BlsBn254, messageHash: BytesLike, secretKey: Fr): `0x${string}` {
+  const { signature } = bls.sign(bls.g1FromEvmHex(messageHash), secretKey);
+  return encodeSignature(bls, signature);
+}
+
+export function encodeSignature(bls: BlsBn254, signature: G1): `0x${string}` {
+  return solidityPacked(["uint256", "uint256"], bls.serialiseG1Point(signature)) as `0x${string}`;
+}
+
+/**
+ * Watches `SignatureRequested` events on a SignatureSender and calls `fulfillSignatureRequest` for each BN254
+ * request with the signature produced by `sign`.
+ * Requests can be fulfilled in the background with `start`, or one at a time with `step`.
+ */
+export abstract class Fulfiller {
+  protected readonly queue: PendingSignatureRequest[] = [];
+  private readonly attempts = new Map<bigint, number>();
+  private nextBlock: number;
+  private running?: Promise<void>;
+  private stopped = true;
+
+  protected constructor(
+    public readonly signatureSender: SignatureSender,
+    protected readonly bls: BlsBn254,
+    fromBlock: number,
+    protected readonly opts: FulfillerOpts,
+  ) {
+    this.nextBlock = fromBlock;
+  }
+
+  /**
+   * Pick up the requests emitted since the last poll
+   * @returns all requests waiting to be fulfilled
+   */
+  public async poll(): Promise<PendingSignatureRequest[]> {
+    const latest = await this.signatureSender.runner!.provider!.getBlockNumber();
+    if (latest >= this.nextBlock) {
+      const events = await this.signatureSender.queryFilter(
+        this.signatureSender.filters.SignatureRequested(),
+        this.nextBlock,
+        latest,
+      );
+      for (const { args, blockNumber } of events) {
+        if (args.schemeID !== BN254_SCHEME_ID) {
+          continue;
+        }
+        this.queue.push({
+          requestId: args.requestID,
+          callback: args.callback,
+          schemeID: args.schemeID,
+          message: hexlify(args.message) as `0x${string}`,
+          messageHash: hexlify(args.messageHashToSign) as `0x${string}`,
+          condition: hexlify(args.condition) as `0x${string}`,
+          requestedAt: args.requestedAt,
+          blockNumber,
+        });
+      }
+      this.nextBlock = latest + 1;
+    }
+    return this.pending();
+  }
+
+  /**
+   * Requests waiting to be fulfilled, in the order they will be fulfilled
+   */
+  public pending(): PendingSignatureRequest[] {
+    return this.opts.hooks?.order ? this.opts.hooks.order([...this.queue]) : [...this.queue];
+  }
+
+  /**
+   * Fulfill the next pending request, polling for new requests first. A request that fails to be fulfilled moves
+   * behind the other pending requests, and is dropped once it is no longer in flight or after `maxAttempts` failures.
+   * @returns the fulfillment, or undefined if there was nothing to fulfill
+   * @throws the fulfillment error
+   */
+  public async step(): Promise<FulfillmentResult | undefined> {
+    const [next] = await this.poll();
+    if (!next) {
+      return undefined;
+    }
+    // `order` may return copies, so the queued request is found by id
+    const queued = this.dequeue(next.requestId);
+
+    const delayMs = this.opts.hooks?.delayMs;
+    await sleep(typeof delayMs === "function" ? delayMs(next) : (delayMs ?? 0));
+    let result: FulfillmentResult;
+    try {
+      result = await this.fulfill(next);
+    } catch (err) {
+      await this.retry(queued);
+      throw err;
+    }
+    this.attempts.delete(next.requestId);
+    this.opts.hooks?.onFulfilled?.(result);
+    return result;
+  }
+
+  /**
+   * Fulfill every pending request
+   * @throws the first fulfillment error, leaving the failed request pending
+   */
+  public async fulfillAll(): Promise<FulfillmentResult[]> {
+    const results: FulfillmentResult[] = [];
+    for (let result = await this.step(); result; result = await this.step()) {
+      results.push(result);
+    }
+    return results;
+  }
+
+  /**
+   * Fulfill requests in the background until `stop` is called
+   */
+  public start(): void {
+    if (!this.stopped) {
+      return;
+    }
+    this.stopped = false;
+    this.running = (async () => {
+      while (!this.stopped) {
+        try {
+          const result = await this.step();
+          if (!result) {
+            await sleep(this.opts.pollingIntervalMs ?? DEFAULT_POLLING_INTERVAL_MS);
+          }
+        } catch (err) {
+          this.opts.hooks?.onError?.(err);
+          await sleep(this.opts.pollingIntervalMs ?? DEFAULT_POLLING_INTERVAL_MS);
+        }
+      }
+    })();
+  }
+
+  /**
+   * Stop fulfilling in the background, waiting for the fulfillment in progress to complete
+   */
+  public async stop(): Promise<void> {
+    this.stopped = true;
+    await this.running;
+  }
+
+  /**
+   * Produce the signature submitted for a request
+   */
+  protected abstract sign(request: PendingSignatureRequest): Promise<`0x${string}`>;
+
+  /**
+   * Sign and submit a request
+   */
+  protected async fulfill(request: PendingSignatureRequest): Promise<FulfillmentResult> {
+    const signature = await this.sign(request);
+    const tx = await this.signatureSender.fulfillSignatureRequest(request.requestId, signature);
+    const receipt = (await tx.wait())!;
+    return { request, signature, transactionHash: receipt.hash, callbackSucceeded: this.callbackSucceeded(receipt) };
+  }
+
+  protected callbackSucceeded(receipt: ContractTransactionReceipt): boolean {
+    return !receipt.logs.some(
+      (log) => this.signatureSender.interface.parseLog(log)?.name === "SignatureCallbackFailed",
+    );
+  }
+
+  private dequeue(requestId: bigint): PendingSignatureRequest {
+    const position = this.queue.findIndex((request) => request.requestId === requestId);
+    if (position === -1) {
+      throw new Error(`request ${requestId} is not pending`);
+    }
+    return this.queue.splice(position, 1)[0];
+  }
+
+  // a request that cannot be fulfilled, e.g. because it was fulfilled elsewhere, must not hold up the others
+  private async retry(request: PendingSignatureRequest): Promise<void> {
+    const attempts = (this.attempts.get(request.requestId) ?? 0) + 1;
+    const maxAttempts = this.opts.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    if (attempts >= maxAttempts || !(await this.isInFlight(request.requestId))) {
+      this.attempts.delete(request.requestId);
+      return;
+    }
+    this.attempts.set(request.requestId, attempts);
+    this.queue.push(request);
+  }
+
+  // a failed read keeps the request, the next attempt checks again
+  private async isInFlight(requestId: bigint): Promise<boolean> {
+    return this.signatureSender.isInFlight(requestId).catch(() => true);
+  }
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, Math.max(ms, 0)));
+}
@@ -0,0 +1,4 @@
+export * from "./base";
+export * from "./local";
+export * from "./threshold";
+export * from "./adversarial";
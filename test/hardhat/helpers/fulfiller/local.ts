@@ -0,0 +1,64 @@
+import {
+  ISignatureScheme__factory,
+  ISignatureSchemeAddressProvider__factory,
+  SignatureSender,
+} from "../../../../typechain-types";
+import { BlsBn254 } from "../crypto";
+import { BN254_SCHEME_ID, Fulfiller, FulfillerOpts, PendingSignatureRequest, signMessageHash } from "./base";
+import { toUtf8Bytes } from "ethers";
+import type { Fr } from "mcl-wasm";
+
+/**
+ * Stands in for the dcipher network on local Hardhat networks, signing every request with a single local key
+ */
+export class LocalFulfiller extends Fulfiller {
+  protected constructor(
+    signatureSender: SignatureSender,
+    bls: BlsBn254,
+    private readonly secretKey: Fr,
+    fromBlock: number,
+    opts: FulfillerOpts,
+  ) {
+    super(signatureSender, bls, fromBlock, opts);
+  }
+
+  /**
+   * Create a fulfiller, checking that the secret key matches the public key of the deployed BN254 signature scheme
+   * @param signatureSender the SignatureSender proxy, connected to the account submitting fulfillments
+   * @param bls mcl wrapper
+   * @param secretKey the secret key matching the deployed `BN254SignatureScheme` public key
+   * @param opts fulfiller options
+   */
+  public static async create(
+    signatureSender: SignatureSender,
+    bls: BlsBn254,
+    secretKey: Fr,
+    opts: FulfillerOpts = {},
+  ): Promise<LocalFulfiller> {
+    await assertSchemeKey(signatureSender, bls, secretKey);
+    const fromBlock = opts.fromBlock ?? (await signatureSender.runner!.provider!.getBlockNumber());
+    return new LocalFulfiller(signatureSender, bls, secretKey, fromBlock, opts);
+  }
+
+  protected async sign(request: PendingSignatureRequest): Promise<`0x${string}`> {
+    return signMessageHash(this.bls, request.messageHash, this.secretKey);
+  }
+}
+
+/**
+ * Check a secret key against the deployed BN254 signature scheme by verifying a probe signature on chain
+ */
+export async function assertSchemeKey(signatureSender: SignatureSender, bls: BlsBn254, secretKey: Fr): Promise<void> {
+  const provider = ISignatureSchemeAddressProvider__factory.connect(
+    await signatureSender.signatureSchemeAddressProvider(),
+    signatureSender.runner,
+  );
+  const scheme = ISignatureScheme__factory.connect(
+    await provider.getSignatureSchemeAddress(BN254_SCHEME_ID),
+    signatureSender.runner,
+  );
+  const messageHash = await scheme.hashToBytes(toUtf8Bytes("local fulfiller probe"));
+  if (!(await scheme.verifySignature(messageHash, signMessageHash(bls, messageHash, secretKey)))) {
+    throw new Error("secret key does not match the public key of the BN254 signature scheme");
+  }
+}
@@ -0,0 +1,122 @@
+import { SignatureSender } from "../../../../typechain-types";
+import { BlsBn254, PartialSignature, SecretKeyShare } from "../crypto";
+import { encodeSignature, Fulfiller, FulfillerOpts, PendingSignatureRequest } from "./base";
+import { assertSchemeKey } from "./local";
+import type { Fr, G1 } from "mcl-wasm";
+
+/**
+ * A simulated committee member holding one share of the network key
+ */
+export type SimulatedNode = {
+  share: SecretKeyShare;
+  online: boolean; // offline nodes do not contribute a partial signature
+  faulty: boolean; // faulty nodes contribute a partial signature on the wrong message
+};
+
+/**
+ * Outcome of gossiping the partial signatures for one request
+ */
+export type CommitteeRound = {
+  requestId: bigint;
+  contributors: number[]; // indices of the nodes that sent a partial signature
+  invalidIndices: number[]; // indices of the nodes whose partial signature failed verification
+};
+
+export type ThresholdFulfillerOpts = FulfillerOpts & {
+  offline?: number[]; // indices of the nodes that start offline
+  faulty?: number[]; // indices of the nodes that start faulty
+};
+
+/**
+ * Simulates a threshold committee on local Hardhat networks: n nodes each hold a share of the key of the deployed
+ * BN254 signature scheme, gossip partial signatures in-process and submit the signature recovered from any
+ * `threshold` valid partials.
+ */
+export class ThresholdFulfiller extends Fulfiller {
+  public readonly nodes: SimulatedNode[];
+  public readonly rounds = new Map<bigint, CommitteeRound>(); // the round that recovered each signature
+
+  protected constructor(
+    signatureSender: SignatureSender,
+    bls: BlsBn254,
+    shares: SecretKeyShare[],
+    public readonly threshold: number,
+    fromBlock: number,
+    opts: ThresholdFulfillerOpts,
+  ) {
+    super(signatureSender, bls, fromBlock, opts);
+    this.nodes = shares.map((share) => ({
+      share,
+      online: !opts.offline?.includes(share.index),
+      faulty: opts.faulty?.includes(share.index) ?? false,
+    }));
+  }
+
+  /**
+   * Create a committee by splitting a secret key into n shares
+   * @param signatureSender the SignatureSender proxy, connected to the account submitting fulfillments
+   * @param bls mcl wrapper
+   * @param secretKey the secret key matching the deployed `BN254SignatureScheme` public key
+   * @param threshold number of valid partial signatures needed to recover a signature
+   * @param n number of nodes in the committee
+   * @param opts fulfiller options
+   */
+  public static async create(
+    signatureSender: SignatureSender,
+    bls: BlsBn254,
+    secretKey: Fr,
+    threshold: number,
+    n: number,
+    opts: ThresholdFulfillerOpts = {},
+  ): Promise<ThresholdFulfiller> {
+    await assertSchemeKey(signatureSender, bls, secretKey);
+    const shares = bls.createKeyShares(secretKey, threshold, n);
+    const fromBlock = opts.fromBlock ?? (await signatureSender.runner!.provider!.getBlockNumber());
+    return new ThresholdFulfiller(signatureSender, bls, shares, threshold, fromBlock, opts);
+  }
+
+  public setOnline(index: number, online: boolean): void {
+    this.node(index).online = online;
+  }
+
+  public setFaulty(index: number, faulty: boolean): void {
+    this.node(index).faulty = faulty;
+  }
+
+  /**
+   * Collect a partial signature from every online node and recover the signature from the valid ones
+   * @throws if fewer than `threshold` nodes sent a valid partial signature
+   */
+  protected async sign(request: PendingSignatureRequest): Promise<`0x${string}`> {
+    const h_m = this.bls.g1FromEvmHex(request.messageHash);
+    const partials: PartialSignature[] = this.nodes
+      .filter((node) => node.online)
+      .map((node) => this.bls.signPartial(node.faulty ? this.wrongMessage(h_m) : h_m, node.share));
+
+    const shares = this.nodes.map((node) => node.share);
+    let recovered: { signature: G1; invalidIndices: number[] };
+    try {
+      recovered = this.bls.recoverVerifiedSignature(h_m, shares, partials, this.threshold);
+    } catch (err) {
+      throw new Error(`request ${request.requestId}: ${(err as Error).message}`);
+    }
+    this.rounds.set(request.requestId, {
+      requestId: request.requestId,
+      contributors: partials.map((partial) => partial.index),
+      invalidIndices: recovered.invalidIndices,
+    });
+    return encodeSignature(this.bls, recovered.signature);
+  }
+
+  private node(index: number): SimulatedNode {
+    const node = this.nodes.find((node) => node.share.index === index);
+    if (!node) {
+      throw new Error(`no node with index ${index}`);
+    }
+    return node;
+  }
+
+  private wrongMessage(h_m: G1): G1 {
+    return this.bls.aggregate(h_m, this.bls.G1) as G1;
+  }
+}
@@ -0,0 +1,3 @@
+export * from "./store";
+export * from "./indexer";
+export * from "./queries";
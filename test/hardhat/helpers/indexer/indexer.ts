@@ -0,0 +1,280 @@
+import { RandomnessSender, SignatureSender } from "../../../../typechain-types";
+import { BlockRef, EventRef, IndexerState, IndexerStore, RequestRecord } from "./store";
+import { BaseContract, hexlify, Log } from "ethers";
+
+export const DEFAULT_BATCH_SIZE = 2000;
+const DEFAULT_MAX_CHECKPOINTS = 128;
+
+const SIGNATURE_EVENTS = ["SignatureRequested", "SignatureRequestFulfilled", "SignatureCallbackFailed"];
+const RANDOMNESS_EVENTS = ["RandomnessRequested", "RandomnessCallbackSuccess", "RandomnessCallbackFailed"];
+
+export type RequestStatus = "pending" | "fulfilled" | "failed";
+
+export type IndexerOpts = {
+  fromBlock?: number; // first block to scan on a fresh store, defaults to 0
+  batchSize?: number; // blocks per `eth_getLogs` call, to stay within RPC range limits
+  confirmations?: number; // blocks to stay behind the head, 0 to index up to the latest block
+  maxCheckpoints?: number; // block hashes kept for reorg detection; deeper reorgs trigger a full rescan
+};
+
+export type SyncResult = {
+  fromBlock: number;
+  toBlock: number; // last block scanned, fromBlock - 1 if there was nothing new
+  events: number;
+  rolledBackTo?: number; // the common ancestor if a reorg was detected
+};
+
+/**
+ * Status of a request: fulfilled once delivered, failed if the SignatureSender or RandomnessSender callback failed.
+ * A SignatureSender callback failure can be followed by a successful retry, so delivery takes precedence.
+ */
+export function requestStatus(record: RequestRecord): RequestStatus {
+  if (record.randomness ? record.randomness.delivered : record.signature?.fulfilled) {
+    return "fulfilled";
+  }
+  return record.signature?.callbackFailed || record.randomness?.callbackFailed ? "failed" : "pending";
+}
+
+/**
+ * Indexes the request lifecycle events of a SignatureSender and RandomnessSender into one record per request id,
+ * rolling back records invalidated by reorgs and checkpointing to a store after every batch
+ */
+export class RequestIndexer {
+  private constructor(
+    private readonly signatureSender: SignatureSender,
+    private readonly randomnessSender: RandomnessSender,
+    private readonly store: IndexerStore,
+    private readonly state: IndexerState,
+    private readonly opts: IndexerOpts,
+  ) {}
+
+  /**
+   * Create an indexer, resuming from the store's checkpoint if it has one
+   * @param signatureSender the SignatureSender proxy
+   * @param randomnessSender the RandomnessSender proxy
+   * @param store where the state is persisted
+   * @param opts indexer options
+   * @throws if the store was written for another chain or other contracts
+   */
+  public static async create(
+    signatureSender: SignatureSender,
+    randomnessSender: RandomnessSender,
+    store: IndexerStore,
+    opts: IndexerOpts = {},
+  ): Promise<RequestIndexer> {
+    const { chainId } = await signatureSender.runner!.provider!.getNetwork();
+    const signatureSenderAddress = await signatureSender.getAddress();
+    const randomnessSenderAddress = await randomnessSender.getAddress();
+
+    let state = await store.load();
+    if (!state) {
+      state = {
+        chainId,
+        signatureSender: signatureSenderAddress,
+        randomnessSender: randomnessSenderAddress,
+        fromBlock: opts.fromBlock ?? 0,
+        checkpoints: [],
+        records: {},
+      };
+    } else if (
+      state.chainId !== chainId ||
+      state.signatureSender !== signatureSenderAddress ||
+      state.randomnessSender !== randomnessSenderAddress
+    ) {
+      throw new Error(
+        `store holds chain ${state.chainId} contracts ${state.signatureSender}, ${state.randomnessSender}, ` +
+          `not chain ${chainId} contracts ${signatureSenderAddress}, ${randomnessSenderAddress}`,
+      );
+    }
+    return new RequestIndexer(signatureSender, randomnessSender, store, state, opts);
+  }
+
+  /**
+   * The last block scanned, fromBlock - 1 before the first sync
+   */
+  public get checkpoint(): number {
+    return this.state.checkpoints.at(-1)?.number ?? this.state.fromBlock - 1;
+  }
+
+  /**
+   * Scan new blocks up to the head, less the configured confirmations, rolling back first if the chain reorganised
+   */
+  public async sync(): Promise<SyncResult> {
+    const provider = this.signatureSender.runner!.provider!;
+    const rolledBackTo = await this.detectReorg();
+    if (rolledBackTo !== undefined) {
+      this.rollBack(rolledBackTo);
+      await this.store.save(this.state);
+    }
+
+    const fromBlock = this.checkpoint + 1;
+    const head = (await provider.getBlockNumber()) - (this.opts.confirmations ?? 0);
+    const batchSize = this.opts.batchSize ?? DEFAULT_BATCH_SIZE;
+    let events = 0;
+    for (let from = fromBlock; from <= head; from += batchSize) {
+      const to = Math.min(from + batchSize - 1, head);
+      const logs = [
+        ...(await this.logs(this.signatureSender, SIGNATURE_EVENTS, from, to)),
+        ...(await this.logs(this.randomnessSender, RANDOMNESS_EVENTS, from, to)),
+      ].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+      for (const log of logs) {
+        this.apply(log);
+      }
+      events += logs.length;
+
+      const block = await provider.getBlock(to);
+      if (!block?.hash) {
+        throw new Error(`block ${to} not found`);
+      }
+      this.pushCheckpoint({ number: to, hash: block.hash });
+      await this.store.save(this.state);
+    }
+    return { fromBlock, toBlock: this.checkpoint, events, rolledBackTo };
+  }
+
+  public get(requestId: bigint): RequestRecord | undefined {
+    return this.state.records[requestId.toString()];
+  }
+
+  /**
+   * Every indexed request, by ascending request id
+   */
+  public records(): RequestRecord[] {
+    return Object.values(this.state.records).sort((a, b) =>
+      a.requestId < b.requestId ? -1 : a.requestId > b.requestId ? 1 : 0,
+    );
+  }
+
+  // finds the newest checkpoint still on the canonical chain, or undefined if the last one is
+  private async detectReorg(): Promise<number | undefined> {
+    const provider = this.signatureSender.runner!.provider!;
+    const checkpoints = this.state.checkpoints;
+    for (let i = checkpoints.length - 1; i >= 0; i--) {
+      const block = await provider.getBlock(checkpoints[i].number);
+      if (block?.hash === checkpoints[i].hash) {
+        return i === checkpoints.length - 1 ? undefined : checkpoints[i].number;
+      }
+    }
+    // reorged past every checkpoint: start over
+    return checkpoints.length > 0 ? this.state.fromBlock - 1 : undefined;
+  }
+
+  private rollBack(ancestor: number) {
+    const stale = (ref?: EventRef) => ref !== undefined && ref.blockNumber > ancestor;
+    this.state.checkpoints = this.state.checkpoints.filter((checkpoint) => checkpoint.number <= ancestor);
+    for (const [key, record] of Object.entries(this.state.records)) {
+      const { signature, randomness } = record;
+      if (stale(signature?.requested)) {
+        delete record.signature;
+      } else if (signature) {
+        if (stale(signature.fulfilled)) {
+          delete signature.fulfilled;
+        }
+        if (stale(signature.callbackFailed)) {
+          delete signature.callbackFailed;
+        }
+      }
+      if (stale(randomness?.requested)) {
+        delete record.randomness;
+      } else if (randomness) {
+        if (stale(randomness.delivered)) {
+          delete randomness.delivered;
+        }
+        if (stale(randomness.callbackFailed)) {
+          delete randomness.callbackFailed;
+        }
+      }
+      if (!record.signature && !record.randomness) {
+        delete this.state.records[key];
+      }
+    }
+  }
+
+  private pushCheckpoint(checkpoint: BlockRef) {
+    this.state.checkpoints.push(checkpoint);
+    const excess = this.state.checkpoints.length - (this.opts.maxCheckpoints ?? DEFAULT_MAX_CHECKPOINTS);
+    if (excess > 0) {
+      this.state.checkpoints.splice(0, excess);
+    }
+  }
+
+  private async logs(contract: BaseContract, events: string[], fromBlock: number, toBlock: number): Promise<Log[]> {
+    const topics = events.map((name) => contract.interface.getEvent(name)!.topicHash);
+    return contract.runner!.provider!.getLogs({
+      address: await contract.getAddress(),
+      topics: [topics],
+      fromBlock,
+      toBlock,
+    });
+  }
+
+  private apply(log: Log) {
+    const ref: EventRef = {
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+    };
+    const fromSignatureSender = log.address.toLowerCase() === this.state.signatureSender.toLowerCase();
+    const event = (fromSignatureSender ? this.signatureSender : this.randomnessSender).interface.parseLog(log);
+    if (!event) {
+      return;
+    }
+
+    const requestId: bigint = event.args.requestID;
+    const key = requestId.toString();
+    if (event.name === "SignatureRequested" || event.name === "RandomnessRequested") {
+      this.state.records[key] ??= { requestId };
+    }
+    // outcomes of requests made before `fromBlock` are ignored
+    const record = this.state.records[key];
+    if (!record) {
+      return;
+    }
+    switch (event.name) {
+      case "SignatureRequested":
+        record.signature = {
+          callback: event.args.callback,
+          schemeID: event.args.schemeID,
+          message: hexlify(event.args.message),
+          messageHash: hexlify(event.args.messageHashToSign),
+          condition: hexlify(event.args.condition),
+          requestedAt: event.args.requestedAt,
+          requested: ref,
+        };
+        break;
+      case "SignatureRequestFulfilled":
+        if (record.signature) {
+          record.signature.fulfilled = { ...ref, signature: hexlify(event.args.signature) };
+        }
+        break;
+      case "SignatureCallbackFailed":
+        if (record.signature) {
+          record.signature.callbackFailed = ref;
+        }
+        break;
+      case "RandomnessRequested":
+        record.randomness = {
+          nonce: event.args.nonce,
+          requester: event.args.requester,
+          requestedAt: event.args.requestedAt,
+          requested: ref,
+        };
+        break;
+      case "RandomnessCallbackSuccess":
+        if (record.randomness) {
+          record.randomness.delivered = {
+            ...ref,
+            randomness: event.args.randomness,
+            signature: hexlify(event.args.signature),
+          };
+        }
+        break;
+      case "RandomnessCallbackFailed":
+        if (record.randomness) {
+          record.randomness.callbackFailed = ref;
+        }
+        break;
+    }
+  }
+}
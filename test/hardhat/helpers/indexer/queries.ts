@@ -0,0 +1,220 @@
+import { RandomnessSender, SignatureSender } from "../../../../typechain-types";
+import { DEFAULT_BATCH_SIZE, RequestIndexer } from "./indexer";
+import { MemoryStore, RequestRecord } from "./store";
+import { AddressLike, BigNumberish, Log, resolveAddress, toBeHex, toBigInt } from "ethers";
+
+const DEFAULT_LIMIT = 50;
+
+export type QueryStatus = "inFlight" | "fulfilled" | "errored";
+
+export type RequestQuery = {
+  requester?: AddressLike;
+  subId?: BigNumberish; // 0 for direct funding requests
+  status?: QueryStatus;
+  fromTime?: bigint; // earliest `requestedAt`, in seconds, inclusive
+  toTime?: bigint; // latest `requestedAt`, in seconds, inclusive
+  limit?: number;
+  cursor?: string; // from the previous page, to continue after its last request
+};
+
+export type RequestSummary = {
+  requestId: bigint;
+  nonce: bigint;
+  requester: string;
+  subId: bigint;
+  callbackGasLimit: bigint;
+  directFundingFeePaid: bigint;
+  requestedAt: bigint;
+  status: QueryStatus; // as the SignatureSender reports it, i.e. errored only if its own callback reverted
+};
+
+export type RequestPage = {
+  items: RequestSummary[];
+  cursor?: string; // undefined on the last page
+  source: "views" | "events"; // whether the answer came from the getAll* views or was rebuilt from logs
+};
+
+export type RequestQueriesOpts = {
+  fromBlock?: number; // deployment block, where log scans start
+  batchSize?: number; // blocks per `eth_getLogs` call, to stay within RPC range limits
+  viewGasLimit?: bigint; // gas for the getAll* calls, to match the eth_call gas cap of the target RPC
+  onFallback?: (error: unknown) => void; // called when the views fail and the answer is rebuilt from logs
+};
+
+// a request whose remaining fields are only fetched once it is needed for filtering or output
+type Candidate = Partial<RequestSummary> & Pick<RequestSummary, "requestId" | "status">;
+
+/**
+ * Filtered, paginated queries over RandomnessSender requests, answered from the `getAll*` views while they fit in
+ * one eth_call, and rebuilt from the request lifecycle events once they do not
+ */
+export class RequestQueries {
+  private indexer?: RequestIndexer;
+
+  constructor(
+    private readonly randomnessSender: RandomnessSender,
+    private readonly signatureSender: SignatureSender,
+    private readonly opts: RequestQueriesOpts = {},
+  ) {}
+
+  /**
+   * @param query filters and page position
+   * @returns up to `limit` requests matching every filter, by ascending request id
+   */
+  public async query(query: RequestQuery = {}): Promise<RequestPage> {
+    const limit = query.limit ?? DEFAULT_LIMIT;
+    if (limit <= 0) {
+      throw new Error(`invalid limit: ${limit}`);
+    }
+
+    let source: RequestPage["source"] = "views";
+    let candidates: Candidate[];
+    try {
+      candidates = await this.fromViews();
+    } catch (err) {
+      this.opts.onFallback?.(err);
+      source = "events";
+      candidates = await this.fromEvents();
+    }
+
+    const after = query.cursor === undefined ? -1n : decodeCursor(query.cursor);
+    const requester = query.requester === undefined ? undefined : (await resolveAddress(query.requester)).toLowerCase();
+    const subId = query.subId === undefined ? undefined : toBigInt(query.subId);
+    const remaining = candidates
+      .filter((c) => c.requestId > after && (query.status === undefined || c.status === query.status))
+      .filter((c) => requester === undefined || c.requester === undefined || c.requester.toLowerCase() === requester)
+      .sort((a, b) => (a.requestId < b.requestId ? -1 : a.requestId > b.requestId ? 1 : 0));
+
+    // complete candidates a page at a time, so that the cost of a query is bounded by the requests it looks at
+    const items: RequestSummary[] = [];
+    for (let i = 0; i < remaining.length && items.length <= limit; i += limit) {
+      for (const summary of await this.complete(remaining.slice(i, i + limit))) {
+        if (
+          (requester === undefined || summary.requester.toLowerCase() === requester) &&
+          (subId === undefined || summary.subId === subId) &&
+          (query.fromTime === undefined || summary.requestedAt >= query.fromTime) &&
+          (query.toTime === undefined || summary.requestedAt <= query.toTime)
+        ) {
+          items.push(summary);
+        }
+      }
+    }
+
+    const page = items.slice(0, limit);
+    return {
+      items: page,
+      cursor: items.length > limit ? encodeCursor(page[page.length - 1].requestId) : undefined,
+      source,
+    };
+  }
+
+  private async fromViews(): Promise<Candidate[]> {
+    const overrides = this.opts.viewGasLimit === undefined ? {} : { gasLimit: this.opts.viewGasLimit };
+    const requests = await this.randomnessSender.getAllRequests(overrides);
+    const unfulfilled = new Set(await this.signatureSender.getAllUnfulfilledRequestIds(overrides));
+    const errored = new Set(await this.signatureSender.getAllErroredRequestIds(overrides));
+    return requests.map((request) => ({
+      requestId: request.requestId,
+      nonce: request.nonce,
+      requester: request.callback,
+      subId: request.subId,
+      callbackGasLimit: request.callbackGasLimit,
+      directFundingFeePaid: request.directFundingFeePaid,
+      status: errored.has(request.requestId)
+        ? "errored"
+        : unfulfilled.has(request.requestId)
+          ? "inFlight"
+          : "fulfilled",
+    }));
+  }
+
+  private async fromEvents(): Promise<Candidate[]> {
+    this.indexer ??= await RequestIndexer.create(this.signatureSender, this.randomnessSender, new MemoryStore(), {
+      fromBlock: this.opts.fromBlock,
+      batchSize: this.opts.batchSize,
+    });
+    await this.indexer.sync();
+    return this.indexer
+      .records()
+      .filter((record) => record.randomness && record.signature)
+      .map((record) => ({
+        requestId: record.requestId,
+        nonce: record.randomness!.nonce,
+        requester: record.randomness!.requester,
+        requestedAt: record.randomness!.requestedAt,
+        status: signatureStatus(record),
+      }));
+  }
+
+  // fetches what the source did not provide: the request details from storage, or the request time from logs
+  private async complete(candidates: Candidate[]): Promise<RequestSummary[]> {
+    const requestedAt = await this.requestTimes(candidates.filter((c) => c.requestedAt === undefined));
+    return Promise.all(
+      candidates.map(async (candidate) => {
+        if (candidate.subId === undefined) {
+          const request = await this.randomnessSender.getRequest(candidate.requestId);
+          candidate = {
+            ...candidate,
+            subId: request.subId,
+            callbackGasLimit: request.callbackGasLimit,
+            directFundingFeePaid: request.directFundingFeePaid,
+          };
+        }
+        return {
+          ...candidate,
+          requestedAt: candidate.requestedAt ?? requestedAt.get(candidate.requestId),
+        } as RequestSummary;
+      }),
+    );
+  }
+
+  private async requestTimes(candidates: Candidate[]): Promise<Map<bigint, bigint>> {
+    const times = new Map<bigint, bigint>();
+    if (candidates.length === 0) {
+      return times;
+    }
+    // queries filtered on the indexed request ids, as requests carry no timestamp in storage
+    const provider = this.randomnessSender.runner!.provider!;
+    const event = this.randomnessSender.interface.getEvent("RandomnessRequested")!;
+    const address = await this.randomnessSender.getAddress();
+    const topics = [event.topicHash, candidates.map((c) => toBeHex(c.requestId, 32))];
+    const batchSize = this.opts.batchSize ?? DEFAULT_BATCH_SIZE;
+    const head = await provider.getBlockNumber();
+    const logs: Log[] = [];
+    for (let from = this.opts.fromBlock ?? 0; from <= head && logs.length < candidates.length; from += batchSize) {
+      logs.push(
+        ...(await provider.getLogs({
+          address,
+          topics,
+          fromBlock: from,
+          toBlock: Math.min(from + batchSize - 1, head),
+        })),
+      );
+    }
+    for (const log of logs) {
+      const { args } = this.randomnessSender.interface.parseLog(log)!;
+      times.set(args.requestID, args.requestedAt);
+    }
+    return times;
+  }
+}
+
+// mirrors the SignatureSender request sets: a successful callback clears an earlier error
+function signatureStatus(record: RequestRecord): QueryStatus {
+  if (record.signature?.fulfilled) {
+    return "fulfilled";
+  }
+  return record.signature?.callbackFailed ? "errored" : "inFlight";
+}
+
+function encodeCursor(requestId: bigint): string {
+  return Buffer.from(`request:${requestId}`).toString("base64url");
+}
+
+function decodeCursor(cursor: string): bigint {
+  const match = /^request:(\d+)$/.exec(Buffer.from(cursor, "base64url").toString());
+  if (!match) {
+    throw new Error(`invalid cursor: ${cursor}`);
+  }
+  return BigInt(match[1]);
+}
@@ -0,0 +1,128 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname } from "path";
+
+// bump when the persisted layout changes, so that stale files are rejected rather than misread
+const STORE_VERSION = 1;
+
+/**
+ * Where an event was emitted; a reorg invalidates every ref above the common ancestor
+ */
+export type EventRef = {
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+};
+
+export type SignatureLifecycle = {
+  callback: string;
+  schemeID: string;
+  message: string;
+  messageHash: string;
+  condition: string;
+  requestedAt: bigint;
+  requested: EventRef;
+  fulfilled?: EventRef & { signature: string };
+  callbackFailed?: EventRef;
+};
+
+export type RandomnessLifecycle = {
+  nonce: bigint;
+  requester: string;
+  requestedAt: bigint;
+  requested: EventRef;
+  delivered?: EventRef & { randomness: string; signature: string };
+  callbackFailed?: EventRef;
+};
+
+/**
+ * Everything the SignatureSender and RandomnessSender emitted about one request id; requests made directly to the
+ * SignatureSender have no randomness lifecycle
+ */
+export type RequestRecord = {
+  requestId: bigint;
+  signature?: SignatureLifecycle;
+  randomness?: RandomnessLifecycle;
+};
+
+export type BlockRef = {
+  number: number;
+  hash: string;
+};
+
+export type IndexerState = {
+  chainId: bigint;
+  signatureSender: string;
+  randomnessSender: string;
+  fromBlock: number;
+  // hashes of the last blocks scanned, oldest first, to find the common ancestor after a reorg
+  checkpoints: BlockRef[];
+  records: Record<string, RequestRecord>;
+};
+
+/**
+ * Persists the indexer state between runs
+ */
+export interface IndexerStore {
+  load(): Promise<IndexerState | undefined>;
+  save(state: IndexerState): Promise<void>;
+}
+
+/**
+ * Keeps the indexer state for the lifetime of the process only
+ */
+export class MemoryStore implements IndexerStore {
+  private state?: IndexerState;
+
+  public async load(): Promise<IndexerState | undefined> {
+    return this.state;
+  }
+
+  public async save(state: IndexerState): Promise<void> {
+    this.state = state;
+  }
+}
+
+/**
+ * Keeps the indexer state in a JSON file, replaced atomically on every save
+ */
+export class FileStore implements IndexerStore {
+  constructor(public readonly path: string) {}
+
+  public async load(): Promise<IndexerState | undefined> {
+    let contents: string;
+    try {
+      contents = await readFile(this.path, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw err;
+    }
+
+    const { version, state } = JSON.parse(contents, reviveBigInt);
+    if (version !== STORE_VERSION) {
+      throw new Error(`${this.path} has store version ${version}, expected ${STORE_VERSION}`);
+    }
+    return state;
+  }
+
+  public async save(state: IndexerState): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const tmp = `${this.path}.tmp`;
+    await writeFile(tmp, JSON.stringify({ version: STORE_VERSION, state }, replaceBigInt, 2));
+    await rename(tmp, this.path);
+  }
+}
+
+// JSON has no bigints, so they are written as `{ "$bigint": "<decimal>" }`
+function replaceBigInt(_: string, value: unknown): unknown {
+  return typeof value === "bigint" ? { $bigint: value.toString() } : value;
+}
+
+function reviveBigInt(_: string, value: unknown): unknown {
+  if (value && typeof value === "object" && Object.keys(value).length === 1 && "$bigint" in value) {
+    return BigInt(value.$bigint as string);
+  }
+  return value;
+}
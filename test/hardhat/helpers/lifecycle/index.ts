@@ -0,0 +1,3 @@
+export * from "./states";
+export * from "./resolver";
+export * from "./tracker";
@@ -0,0 +1,156 @@
+import { RandomnessSender, SignatureSender } from "../../../../typechain-types";
+import { DEFAULT_BATCH_SIZE } from "../indexer";
+import { RequestOrigin, RequestState } from "./states";
+import { BigNumberish, getBytes, hexlify, keccak256, toBigInt, ZeroAddress } from "ethers";
+
+const DEFAULT_CONFIRMATIONS = 1;
+
+export type RequestStateResolverOpts = {
+  fromBlock?: number; // deployment block, where log scans start
+  batchSize?: number; // blocks per `eth_getLogs` call, to stay within RPC range limits
+  // depth the threshold network waits for before signing; shallower requests are `requested`. The default of 1 signs
+  // requests as soon as they are mined, so `requested` is only reported when this is set higher
+  confirmations?: number;
+};
+
+/**
+ * Derives the lifecycle state of a request from SignatureSender and RandomnessSender reads and events, all taken at
+ * the same block
+ */
+export class RequestStateResolver {
+  /**
+   * @param signatureSender the SignatureSender proxy
+   * @param randomnessSender the RandomnessSender proxy, to resolve randomness requests past the signature
+   * @param opts resolver options
+   */
+  constructor(
+    public readonly signatureSender: SignatureSender,
+    public readonly randomnessSender?: RandomnessSender,
+    private readonly opts: RequestStateResolverOpts = {},
+  ) {}
+
+  /**
+   * @param requestId the SignatureSender request id, which randomness requests share
+   * @param blockTag the block to resolve at, defaults to the latest
+   */
+  public async resolve(requestId: BigNumberish, blockTag?: number): Promise<RequestState> {
+    const id = toBigInt(requestId);
+    const head = blockTag ?? (await this.signatureSender.runner!.provider!.getBlockNumber());
+    const at = { blockTag: head };
+
+    const request = await this.signatureSender.getRequest(id, at);
+    if (request.callback === ZeroAddress) {
+      return { status: "unknown", requestId: id, reason: "the SignatureSender has no request with this id" };
+    }
+    const requested = await this.firstEvent(
+      (from, to) => this.signatureSender.queryFilter(this.signatureSender.filters.SignatureRequested(id), from, to),
+      head,
+    );
+    if (!requested) {
+      return { status: "unknown", requestId: id, reason: `no SignatureRequested event since block ${this.fromBlock}` };
+    }
+
+    // randomness requests are made by the RandomnessSender on behalf of the consumer
+    const randomnessSender = this.randomnessSender;
+    const isRandomness = (await randomnessSender?.getAddress())?.toLowerCase() === request.callback.toLowerCase();
+    const randomness = isRandomness ? await randomnessSender!.getRequest(id, at) : undefined;
+    if (randomness?.nonce === 0n) {
+      return { status: "unknown", requestId: id, reason: "the RandomnessSender has no request with this id" };
+    }
+    const origin: RequestOrigin = {
+      requestId: id,
+      callback: request.callback,
+      consumer: randomness?.callback ?? request.callback,
+      requestedAt: requested.args.requestedAt,
+      blockNumber: requested.blockNumber,
+      transactionHash: requested.transactionHash,
+    };
+
+    if (await this.signatureSender.hasErrored(id, at)) {
+      const failed = await this.lastEvent(
+        (from, to) =>
+          this.signatureSender.queryFilter(this.signatureSender.filters.SignatureCallbackFailed(id), from, to),
+        head,
+      );
+      return { ...origin, status: "callbackFailed", stage: "signature", failedIn: failed?.transactionHash };
+    }
+
+    if (randomnessSender && randomness) {
+      if (getBytes(randomness.signature).length > 0) {
+        const delivered = await this.lastEvent(
+          (from, to) => randomnessSender.queryFilter(randomnessSender.filters.RandomnessCallbackSuccess(id), from, to),
+          head,
+        );
+        const signature = hexlify(randomness.signature);
+        return {
+          ...origin,
+          status: "delivered",
+          signature,
+          randomness: keccak256(signature),
+          deliveredIn: delivered?.transactionHash,
+        };
+      }
+      if (request.isFulfilled) {
+        const failed = await this.lastEvent(
+          (from, to) => randomnessSender.queryFilter(randomnessSender.filters.RandomnessCallbackFailed(id), from, to),
+          head,
+        );
+        return { ...origin, status: "callbackFailed", stage: "randomness", failedIn: failed?.transactionHash };
+      }
+    } else if (request.isFulfilled) {
+      const fulfilled = await this.lastEvent(
+        (from, to) =>
+          this.signatureSender.queryFilter(this.signatureSender.filters.SignatureRequestFulfilled(id), from, to),
+        head,
+      );
+      if (!fulfilled) {
+        return {
+          status: "unknown",
+          requestId: id,
+          reason: `fulfilled, but no SignatureRequestFulfilled event since block ${this.fromBlock}`,
+        };
+      }
+      return {
+        ...origin,
+        status: "delivered",
+        signature: hexlify(fulfilled.args.signature),
+        deliveredIn: fulfilled.transactionHash,
+      };
+    }
+
+    if (!(await this.signatureSender.isInFlight(id, at))) {
+      return { status: "unknown", requestId: id, reason: "neither fulfilled nor in flight" };
+    }
+    const confirmations = head - requested.blockNumber + 1;
+    const status = confirmations < (this.opts.confirmations ?? DEFAULT_CONFIRMATIONS) ? "requested" : "signing";
+    return { ...origin, status, confirmations };
+  }
+
+  private get fromBlock(): number {
+    return this.opts.fromBlock ?? 0;
+  }
+
+  // the earliest event up to `head`, scanning forwards in batches
+  private async firstEvent<T>(query: (from: number, to: number) => Promise<T[]>, head: number): Promise<T | undefined> {
+    const batchSize = this.opts.batchSize ?? DEFAULT_BATCH_SIZE;
+    for (let from = this.fromBlock; from <= head; from += batchSize) {
+      const [event] = await query(from, Math.min(from + batchSize - 1, head));
+      if (event) {
+        return event;
+      }
+    }
+    return undefined;
+  }
+
+  // the latest event up to `head`, scanning backwards in batches
+  private async lastEvent<T>(query: (from: number, to: number) => Promise<T[]>, head: number): Promise<T | undefined> {
+    const batchSize = this.opts.batchSize ?? DEFAULT_BATCH_SIZE;
+    for (let to = head; to >= this.fromBlock; to -= batchSize) {
+      const events = await query(Math.max(to - batchSize + 1, this.fromBlock), to);
+      if (events.length > 0) {
+        return events[events.length - 1];
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,89 @@
+export type RequestStatus = "requested" | "signing" | "delivered" | "callbackFailed" | "unknown";
+
+/**
+ * The request that was made, as the SignatureSender and RandomnessSender recorded it
+ */
+export type RequestOrigin = {
+  requestId: bigint;
+  callback: string; // the SignatureSender's callback, the RandomnessSender for randomness requests
+  consumer: string; // the randomness requester, or the callback for plain signature requests
+  requestedAt: bigint;
+  blockNumber: number;
+  transactionHash: string;
+};
+
+/**
+ * Mined, but not yet as deep as the threshold network waits for before it signs
+ */
+export type RequestedState = RequestOrigin & {
+  status: "requested";
+  confirmations: number;
+};
+
+/**
+ * Deep enough to be signed, waiting for the threshold network's signature
+ */
+export type SigningState = RequestOrigin & {
+  status: "signing";
+  confirmations: number;
+};
+
+/**
+ * The signature was accepted and, for randomness requests, the consumer callback succeeded
+ */
+export type DeliveredState = RequestOrigin & {
+  status: "delivered";
+  signature: string;
+  randomness?: string; // only for randomness requests
+  deliveredIn?: string; // the fulfillment transaction, unless its event is outside the scanned blocks
+};
+
+/**
+ * A fulfillment reached the callback, but the callback reverted
+ */
+export type CallbackFailedState = RequestOrigin & {
+  status: "callbackFailed";
+  // signature: the SignatureSender's callback reverted and the request stays in flight, so a later fulfillment can
+  // still deliver it; randomness: the consumer's callback reverted, which is final
+  stage: "signature" | "randomness";
+  failedIn?: string; // the latest failed fulfillment transaction
+};
+
+/**
+ * The contracts hold no request for the id, or their reads and logs disagree
+ */
+export type UnknownState = {
+  status: "unknown";
+  requestId: bigint;
+  reason: string;
+};
+
+export type RequestState = RequestedState | SigningState | DeliveredState | CallbackFailedState | UnknownState;
+
+export type RequestStateOf<S extends RequestStatus> = Extract<RequestState, { status: S }>;
+
+// where each state can go next; polling can skip intermediate states, so later states are reachable directly
+const TRANSITIONS: Record<RequestStatus, RequestStatus[]> = {
+  requested: ["signing", "delivered", "callbackFailed"],
+  signing: ["delivered", "callbackFailed"],
+  callbackFailed: ["delivered", "callbackFailed"],
+  delivered: [],
+  unknown: ["requested", "signing", "delivered", "callbackFailed"],
+};
+
+/**
+ * Whether a request can move from one state to another without a reorg
+ */
+export function isExpectedTransition(from: RequestState, to: RequestState): boolean {
+  if (from.status === "callbackFailed" && from.stage === "randomness") {
+    return false;
+  }
+  return TRANSITIONS[from.status].includes(to.status);
+}
+
+/**
+ * Whether a request can no longer change state, short of a reorg
+ */
+export function isFinal(state: RequestState): boolean {
+  return state.status === "delivered" || (state.status === "callbackFailed" && state.stage === "randomness");
+}
@@ -0,0 +1,165 @@
+import { sleep } from "../fulfiller";
+import { RequestStateResolver } from "./resolver";
+import { isExpectedTransition, isFinal, RequestState, RequestStateOf, RequestStatus } from "./states";
+import { BigNumberish, toBigInt } from "ethers";
+
+const DEFAULT_POLLING_INTERVAL_MS = 1000;
+const DEFAULT_REORG_DEPTH = 12;
+
+/**
+ * A request moving between two states, emitted once per change
+ */
+export type RequestTransition<S extends RequestStatus = RequestStatus> = {
+  requestId: bigint;
+  from?: RequestState; // undefined the first time the request is resolved
+  to: RequestStateOf<S>;
+  // false for moves the contracts cannot make on their own, e.g. a delivered request going back to signing after a reorg
+  expected: boolean;
+  blockNumber: number; // the block the new state was resolved at
+};
+
+export type TransitionListener<S extends RequestStatus = RequestStatus> = (transition: RequestTransition<S>) => void;
+
+export type RequestStateTrackerOpts = {
+  pollingIntervalMs?: number;
+  reorgDepth?: number; // blocks a request in a final state keeps being resolved for, to see it reorged out
+  onError?: (error: unknown) => void; // called when a background poll fails
+};
+
+/**
+ * Polls the state of a set of requests and emits their transitions, typed by the state they move to
+ */
+export class RequestStateTracker {
+  private readonly states = new Map<bigint, RequestState | undefined>();
+  private readonly changedAt = new Map<bigint, number>(); // the block each tracked request last changed state at
+  // a listener for one status only receives transitions into that status
+  private readonly listeners = new Map<RequestStatus | "*", Set<TransitionListener>>();
+  private running?: Promise<void>;
+  private stopped = true;
+
+  constructor(
+    public readonly resolver: RequestStateResolver,
+    private readonly opts: RequestStateTrackerOpts = {},
+  ) {}
+
+  /**
+   * Listen for requests moving into one state, or into any state with "*"
+   * @returns a function that removes the listener
+   */
+  public on<S extends RequestStatus>(status: S | "*", listener: TransitionListener<S>): () => void {
+    const listeners = this.listeners.get(status) ?? new Set();
+    const wrapped: TransitionListener = ({ to, ...transition }) => {
+      if (hasStatus(to, status)) {
+        listener({ ...transition, to });
+      }
+    };
+    listeners.add(wrapped);
+    this.listeners.set(status, listeners);
+    return () => listeners.delete(wrapped);
+  }
+
+  /**
+   * Start tracking requests; the first poll emits their current state
+   */
+  public watch(...requestIds: BigNumberish[]): void {
+    for (const requestId of requestIds) {
+      const id = toBigInt(requestId);
+      if (!this.states.has(id)) {
+        this.states.set(id, undefined);
+      }
+    }
+  }
+
+  public unwatch(requestId: BigNumberish): void {
+    this.states.delete(toBigInt(requestId));
+    this.changedAt.delete(toBigInt(requestId));
+  }
+
+  /**
+   * The last resolved state of a tracked request
+   */
+  public state(requestId: BigNumberish): RequestState | undefined {
+    return this.states.get(toBigInt(requestId));
+  }
+
+  /**
+   * Resolve every tracked request at the latest block and emit the transitions since the last poll. Requests in a
+   * final state are no longer polled once `reorgDepth` blocks deep. If a request fails to resolve, no state is updated,
+   * so the next poll emits every transition of this one.
+   * @returns the transitions emitted
+   */
+  public async poll(): Promise<RequestTransition[]> {
+    const blockNumber = await this.resolver.signatureSender.runner!.provider!.getBlockNumber();
+    const reorgDepth = this.opts.reorgDepth ?? DEFAULT_REORG_DEPTH;
+    const transitions: RequestTransition[] = [];
+    for (const [requestId, from] of this.states) {
+      if (from && isFinal(from) && blockNumber - this.changedAt.get(requestId)! >= reorgDepth) {
+        continue;
+      }
+      const to = await this.resolver.resolve(requestId, blockNumber);
+      if (!from || changed(from, to)) {
+        transitions.push({ requestId, from, to, expected: !from || isExpectedTransition(from, to), blockNumber });
+      }
+    }
+
+    for (const transition of transitions) {
+      this.states.set(transition.requestId, transition.to);
+      this.changedAt.set(transition.requestId, blockNumber);
+    }
+    for (const transition of transitions) {
+      this.emit(transition);
+    }
+    return transitions;
+  }
+
+  /**
+   * Poll in the background until `stop` is called
+   */
+  public start(): void {
+    if (!this.stopped) {
+      return;
+    }
+    this.stopped = false;
+    this.running = (async () => {
+      while (!this.stopped) {
+        try {
+          await this.poll();
+        } catch (err) {
+          this.opts.onError?.(err);
+        }
+        await sleep(this.opts.pollingIntervalMs ?? DEFAULT_POLLING_INTERVAL_MS);
+      }
+    })();
+  }
+
+  /**
+   * Stop polling in the background, waiting for the poll in progress to complete
+   */
+  public async stop(): Promise<void> {
+    this.stopped = true;
+    await this.running;
+  }
+
+  private emit(transition: RequestTransition): void {
+    for (const key of [transition.to.status, "*"] as const) {
+      for (const listener of this.listeners.get(key) ?? []) {
+        listener(transition);
+      }
+    }
+  }
+}
+
+function hasStatus<S extends RequestStatus>(state: RequestState, status: S | "*"): state is RequestStateOf<S> {
+  return status === "*" || state.status === status;
+}
+
+// more confirmations are not a transition, but every new failed fulfillment is, so that each one can be alerted on
+function changed(from: RequestState, to: RequestState): boolean {
+  if (from.status !== to.status) {
+    return true;
+  }
+  if (from.status === "callbackFailed" && to.status === "callbackFailed") {
+    return from.stage !== to.stage || from.failedIn !== to.failedIn;
+  }
+  return false;
+}
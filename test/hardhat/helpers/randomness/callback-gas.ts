@@ -0,0 +1,142 @@
+import { IRandomnessReceiver__factory, RandomnessSender } from "../../../../typechain-types";
+import { decodeRevert, RevertError } from "../errors";
+import { DEFAULT_BATCH_SIZE } from "../indexer";
+import { getFeeConfig } from "./fees";
+import { impersonateAccount, stopImpersonatingAccount } from "@nomicfoundation/hardhat-network-helpers";
+import { AddressLike, BytesLike, getBytes, hexlify, randomBytes, resolveAddress, ZeroHash } from "ethers";
+
+const TX_BASE_GAS = 21_000n;
+const DEFAULT_SAMPLE_COUNT = 6;
+const DEFAULT_MARGIN_PERCENTAGE = 20n;
+
+export type CallbackGasAdvisorOpts = {
+  requestId?: bigint; // request id passed to the callback, defaults to the consumer's latest request
+  fromBlock?: number; // deployment block, where the scan for the consumer's latest request stops
+  batchSize?: number; // blocks per `eth_getLogs` call, to stay within RPC range limits
+  samples?: BytesLike[]; // randomness values to try, defaults to all zeros, all ones and a few random values
+  marginPercentage?: bigint; // headroom added on top of the highest measurement
+};
+
+export type CallbackGasSample = {
+  randomness: string;
+  gas?: bigint; // gas the callback needs to succeed, undefined if it reverted
+  revert?: RevertError; // why the callback reverted regardless of gas
+};
+
+export type CallbackGasAdvice = {
+  consumer: string;
+  requestId: bigint;
+  samples: CallbackGasSample[];
+  maxGas: bigint; // highest gas needed by a successful sample
+  recommendedCallbackGasLimit: bigint; // maxGas plus the margin, capped at maxGasLimit
+  maxGasLimit: bigint;
+  gasForCallExactCheck: bigint;
+  // gas the fulfillment must have left at the callback so that `_callWithExactGasEvenIfTargetIsNoContract` forwards
+  // the recommended limit
+  gasAtCallSite: bigint;
+  withinMaxGasLimit: boolean; // false if even maxGas exceeds maxGasLimit, so no limit can make the callback succeed
+};
+
+/**
+ * Measure the gas a consumer's `receiveRandomness` needs by calling it as the RandomnessSender on a Hardhat network,
+ * and recommend a `callbackGasLimit`. Only simulates calls, so the network state is left unchanged.
+ * @param randomnessSender the RandomnessSender the consumer accepts callbacks from
+ * @param consumer the contract implementing `IRandomnessReceiver`
+ * @param opts advisor options
+ * @returns the measurements and recommendation
+ * @throws if the callback reverts for every sample
+ */
+export async function adviseCallbackGasLimit(
+  randomnessSender: RandomnessSender,
+  consumer: AddressLike,
+  opts: CallbackGasAdvisorOpts = {},
+): Promise<CallbackGasAdvice> {
+  const provider = randomnessSender.runner!.provider!;
+  const consumerAddress = await resolveAddress(consumer);
+  const senderAddress = await randomnessSender.getAddress();
+  const requestId = opts.requestId ?? (await latestRequestId(randomnessSender, consumerAddress, opts));
+  const samples = opts.samples ?? [
+    ZeroHash,
+    hexlify(new Uint8Array(32).fill(0xff)),
+    ...Array.from({ length: DEFAULT_SAMPLE_COUNT }, () => hexlify(randomBytes(32))),
+  ];
+  const { maxGasLimit, gasForCallExactCheck } = await getFeeConfig(randomnessSender);
+
+  const receiver = IRandomnessReceiver__factory.createInterface();
+  const results: CallbackGasSample[] = [];
+  await impersonateAccount(senderAddress);
+  try {
+    for (const sample of samples) {
+      const randomness = hexlify(sample);
+      const data = receiver.encodeFunctionData("receiveRandomness", [requestId, randomness]);
+      try {
+        // a zero gas price needs no balance, so the proxy's native balance is left as is
+        const gas = await provider.estimateGas({ from: senderAddress, to: consumerAddress, data, gasPrice: 0 });
+        // the callback is an internal call, which pays neither the base transaction cost nor calldata
+        results.push({ randomness, gas: gas - TX_BASE_GAS - calldataGas(data) });
+      } catch (err) {
+        const revert = decodeRevert(err);
+        if (!revert) {
+          throw err;
+        }
+        results.push({ randomness, revert });
+      }
+    }
+  } finally {
+    await stopImpersonatingAccount(senderAddress);
+  }
+
+  const measured = results.filter((sample) => sample.gas !== undefined).map((sample) => sample.gas!);
+  if (measured.length === 0) {
+    throw new Error(`receiveRandomness reverted for every sample: ${results[0].revert!.message}`);
+  }
+  const maxGas = measured.reduce((max, gas) => (gas > max ? gas : max));
+  const padded = (maxGas * (100n + (opts.marginPercentage ?? DEFAULT_MARGIN_PERCENTAGE)) + 99n) / 100n;
+  const recommendedCallbackGasLimit = padded < maxGasLimit ? padded : maxGasLimit;
+  return {
+    consumer: consumerAddress,
+    requestId,
+    samples: results,
+    maxGas,
+    recommendedCallbackGasLimit,
+    maxGasLimit,
+    gasForCallExactCheck,
+    gasAtCallSite: gasAtCallSite(recommendedCallbackGasLimit, gasForCallExactCheck),
+    withinMaxGasLimit: maxGas <= maxGasLimit,
+  };
+}
+
+/**
+ * Smallest gas left at the call site for which `_callWithExactGasEvenIfTargetIsNoContract` makes the call, i.e.
+ * `g - gasForCallExactCheck - (g - gasForCallExactCheck) / 64 > gasLimit`
+ */
+export function gasAtCallSite(gasLimit: bigint, gasForCallExactCheck: bigint): bigint {
+  let g = (gasLimit * 64n) / 63n;
+  while (g - g / 64n <= gasLimit) {
+    g++;
+  }
+  return g + gasForCallExactCheck;
+}
+
+// scans backwards from the latest block, in batches, for the consumer's last request
+async function latestRequestId(
+  randomnessSender: RandomnessSender,
+  consumer: string,
+  opts: Pick<CallbackGasAdvisorOpts, "fromBlock" | "batchSize">,
+): Promise<bigint> {
+  const fromBlock = opts.fromBlock ?? 0;
+  const batchSize = opts.batchSize ?? DEFAULT_BATCH_SIZE;
+  const filter = randomnessSender.filters.RandomnessRequested(undefined, undefined, consumer);
+  for (let to = await randomnessSender.runner!.provider!.getBlockNumber(); to >= fromBlock; to -= batchSize) {
+    const events = await randomnessSender.queryFilter(filter, Math.max(to - batchSize + 1, fromBlock), to);
+    if (events.length > 0) {
+      return events[events.length - 1].args.requestID;
+    }
+  }
+  throw new Error(`${consumer} has not requested randomness; pass the request id to simulate`);
+}
+
+// EIP-2028 calldata cost
+function calldataGas(data: string): bigint {
+  return getBytes(data).reduce((gas, byte) => gas + (byte === 0 ? 4n : 16n), 0n);
+}
@@ -0,0 +1,180 @@
+import { RandomnessSender } from "../../../../typechain-types";
+import { BlsBn254 } from "../crypto";
+import { DEFAULT_BATCH_SIZE } from "../indexer";
+import { estimateRequestPriceNative } from "./fees";
+import { randomnessFromSignature, randomnessMessageFrom, verifyRandomnessSignature } from "./verifier";
+import { BigNumberish, ContractTransactionResponse, hexlify } from "ethers";
+import type { G2 } from "mcl-wasm";
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+const DEFAULT_POLLING_INTERVAL_MS = 1000;
+
+export type RandomnessClientOpts = {
+  // group public key to verify delivered randomness against; randomness is not verified if omitted
+  verification?: { bls: BlsBn254; publicKey: G2; applicationName?: string };
+  timeoutMs?: number;
+  pollingIntervalMs?: number;
+  batchSize?: number; // blocks per `eth_getLogs` call, to stay within RPC range limits
+};
+
+export type RandomnessResult = {
+  requestId: bigint;
+  randomness: `0x${string}`;
+  signature: `0x${string}`;
+  verified: boolean; // true if the signature was checked against the configured public key
+  transactionHash: string; // hash of the fulfillment transaction
+};
+
+/**
+ * A randomness request that has been accepted by the RandomnessSender
+ */
+export type RandomnessRequest = {
+  requestId: bigint;
+  nonce: bigint;
+  requester: string;
+  requestedAt: bigint;
+  blockNumber: number;
+  transactionHash: string;
+  // resolves once the randomness has been delivered to the requester
+  wait: (timeoutMs?: number) => Promise<RandomnessResult>;
+};
+
+/**
+ * Requests randomness from a RandomnessSender and waits for it to be delivered by the threshold network
+ */
+export class RandomnessClient {
+  constructor(
+    public readonly randomnessSender: RandomnessSender,
+    private readonly opts: RandomnessClientOpts = {},
+  ) {}
+
+  /**
+   * Request randomness paid for with `msg.value`
+   * @param callbackGasLimit gas limit for the callback to the requester
+   * @param value fee to send with the request, defaults to the estimator's recommended price
+   */
+  public async requestDirectFunding(callbackGasLimit: BigNumberish, value?: bigint): Promise<RandomnessRequest> {
+    if (value === undefined) {
+      ({ recommendedWei: value } = await estimateRequestPriceNative(this.randomnessSender, callbackGasLimit));
+    }
+    const tx = await this.randomnessSender.requestRandomness(callbackGasLimit, { value });
+    return this.requestFromTransaction(tx);
+  }
+
+  /**
+   * Request randomness paid for by a subscription the caller is a consumer of
+   */
+  public async requestWithSubscription(
+    callbackGasLimit: BigNumberish,
+    subId: BigNumberish,
+  ): Promise<RandomnessRequest> {
+    const tx = await this.randomnessSender.requestRandomnessWithSubscription(callbackGasLimit, subId);
+    return this.requestFromTransaction(tx);
+  }
+
+  /**
+   * Wait for a request to be fulfilled
+   * @param requestId the request id
+   * @param fromBlock first block to search for the fulfillment in, typically the request block
+   * @param timeoutMs how long to wait before rejecting
+   * @returns the delivered randomness
+   * @throws if the callback failed, the signature does not verify, or the timeout expires
+   */
+  public async waitForRandomness(
+    requestId: BigNumberish,
+    fromBlock: number = 0,
+    timeoutMs: number = this.opts.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+  ): Promise<RandomnessResult> {
+    const deadline = Date.now() + timeoutMs;
+    const success = this.randomnessSender.filters.RandomnessCallbackSuccess(requestId);
+    const failed = this.randomnessSender.filters.RandomnessCallbackFailed(requestId);
+    const batchSize = this.opts.batchSize ?? DEFAULT_BATCH_SIZE;
+    const provider = this.randomnessSender.runner!.provider!;
+
+    // each poll only scans the blocks mined since the last one
+    let next = fromBlock;
+    while (Date.now() < deadline) {
+      const head = await provider.getBlockNumber();
+      while (next <= head) {
+        const to = Math.min(next + batchSize - 1, head);
+        const [delivered] = await this.randomnessSender.queryFilter(success, next, to);
+        if (delivered) {
+          const signature = hexlify(delivered.args.signature) as `0x${string}`;
+          const randomness = delivered.args.randomness as `0x${string}`;
+          return {
+            requestId: BigInt(requestId),
+            randomness,
+            signature,
+            verified: await this.verify(requestId, randomness, signature),
+            transactionHash: delivered.transactionHash,
+          };
+        }
+        const [failure] = await this.randomnessSender.queryFilter(failed, next, to);
+        if (failure) {
+          throw new Error(`randomness callback failed for request ${requestId} in ${failure.transactionHash}`);
+        }
+        next = to + 1;
+      }
+      await sleep(Math.min(this.opts.pollingIntervalMs ?? DEFAULT_POLLING_INTERVAL_MS, deadline - Date.now()));
+    }
+    throw new Error(`timed out waiting for randomness for request ${requestId} after ${timeoutMs}ms`);
+  }
+
+  /**
+   * Track a request made by a transaction, e.g. one where a consumer contract calls the RandomnessSender
+   * @param tx the transaction that emitted `RandomnessRequested`
+   * @returns the accepted request
+   * @throws if the transaction was not mined or did not request randomness
+   */
+  public async requestFromTransaction(tx: ContractTransactionResponse): Promise<RandomnessRequest> {
+    const receipt = await tx.wait();
+    if (!receipt) {
+      throw new Error(`request transaction ${tx.hash} was not mined`);
+    }
+    const senderAddress = await this.randomnessSender.getAddress();
+    const event = receipt.logs
+      .filter((log) => log.address.toLowerCase() === senderAddress.toLowerCase())
+      .map((log) => this.randomnessSender.interface.parseLog(log))
+      .find((log) => log?.name === "RandomnessRequested");
+    if (!event) {
+      throw new Error(`no RandomnessRequested event in ${tx.hash}`);
+    }
+
+    const requestId: bigint = event.args.requestID;
+    return {
+      requestId,
+      nonce: event.args.nonce,
+      requester: event.args.requester,
+      requestedAt: event.args.requestedAt,
+      blockNumber: receipt.blockNumber,
+      transactionHash: receipt.hash,
+      wait: (timeoutMs?: number) => this.waitForRandomness(requestId, receipt.blockNumber, timeoutMs),
+    };
+  }
+
+  private async verify(requestId: BigNumberish, randomness: string, signature: string): Promise<boolean> {
+    const verification = this.opts.verification;
+    if (!verification) {
+      return false;
+    }
+
+    const { nonce } = await this.randomnessSender.getRequest(requestId);
+    const { chainId } = await this.randomnessSender.runner!.provider!.getNetwork();
+    const valid = verifyRandomnessSignature(
+      verification.bls,
+      verification.publicKey,
+      randomnessMessageFrom(nonce),
+      signature,
+      chainId,
+      verification.applicationName,
+    );
+    if (!valid || randomnessFromSignature(signature) !== randomness) {
+      throw new Error(`invalid randomness delivered for request ${requestId}`);
+    }
+    return true;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, Math.max(ms, 0)));
+}
@@ -0,0 +1,59 @@
+import { DEFAULT_APPLICATION_NAME, SignatureSchemeID } from "../../../../ignition/config";
+import { toBeHex, toUtf8Bytes } from "ethers";
+
+// shared with the Ignition modules, which must not depend on test helpers
+export { DEFAULT_APPLICATION_NAME };
+export type { SignatureSchemeID };
+
+// Hash-to-curve suite of each scheme, see RFC9380, Section 8.10.
+// The compressed BLS12-381 scheme only changes the signature encoding, not how messages are hashed.
+const HASH_TO_CURVE_SUITES: Record<SignatureSchemeID, string> = {
+  BN254: "BN254G1_XMD:KECCAK-256_SVDW_RO_",
+  BLS12381: "BLS12381G1_XMD:SHA-256_SSWU_RO_",
+  BLS12381Compressed: "BLS12381G1_XMD:SHA-256_SSWU_RO_",
+};
+
+// expand_message_xmd encodes the DST length in a single byte
+const MAX_DST_LENGTH = 255;
+
+/**
+ * Build the domain separation tag used on chain by a signature scheme contract, i.e.
+ * `${applicationName}-${suite}0x${chainId as 32 bytes hex}_`
+ * @param schemeID signature scheme ID the messages are hashed for
+ * @param chainId chain ID of the network the scheme is deployed on
+ * @param applicationName application name the scheme contract was deployed with
+ * @returns the DST as a string
+ */
+export function buildDST(
+  schemeID: SignatureSchemeID,
+  chainId: bigint | number,
+  applicationName: string = DEFAULT_APPLICATION_NAME,
+): string {
+  const suite = HASH_TO_CURVE_SUITES[schemeID];
+  if (!suite) {
+    throw new Error(`unsupported signature scheme: ${schemeID}`);
+  }
+  if (applicationName.length === 0) {
+    throw new Error("application name cannot be empty");
+  }
+  if (BigInt(chainId) <= 0n) {
+    throw new Error(`invalid chain id: ${chainId}`);
+  }
+
+  const dst = `${applicationName}-${suite}${toBeHex(chainId, 32)}_`;
+  if (toUtf8Bytes(dst).length > MAX_DST_LENGTH) {
+    throw new Error(`DST too long: ${dst}`);
+  }
+  return dst;
+}
+
+/**
+ * Same as `buildDST`, encoded as bytes for hashing to a point
+ */
+export function buildDSTBytes(
+  schemeID: SignatureSchemeID,
+  chainId: bigint | number,
+  applicationName: string = DEFAULT_APPLICATION_NAME,
+): Uint8Array {
+  return toUtf8Bytes(buildDST(schemeID, chainId, applicationName));
+}
@@ -0,0 +1,137 @@
+import { FeeConfig } from "../../../../ignition/config";
+import { RandomnessSender } from "../../../../typechain-types";
+import { BigNumberish } from "ethers";
+
+export type { FeeConfig };
+
+/**
+ * Every component of the request price, in the order `FeeCollector._calculateRequestPriceNative` adds them up
+ */
+export type FeeBreakdown = {
+  callbackGasLimit: bigint;
+  weiPerUnitGas: bigint; // request gas price, or the configured fallback if the gas price is zero
+  eip150Overhead: bigint;
+  totalGas: bigint; // gasAfterPaymentCalculation + callbackGasLimit + blsPairingCheckOverhead + eip150Overhead
+  baseFeeWei: bigint;
+  l1CostWei: bigint;
+  premiumWei: bigint;
+  flatFeeWei: bigint;
+  totalWei: bigint; // exactly what `estimateRequestPriceNative(callbackGasLimit, weiPerUnitGas)` returns on chain
+};
+
+export type FeeEstimate = FeeBreakdown & {
+  bufferPercentage: bigint;
+  recommendedWei: bigint; // totalWei plus the safety buffer, to send as `msg.value`
+};
+
+/**
+ * Returns the L1 data cost in wei of fulfilling a request, for L2s that override `FeeCollector._getL1CostWei`
+ */
+export type L1CostProvider = () => Promise<bigint>;
+
+export type EstimatorOpts = {
+  gasPriceWei?: bigint; // defaults to the provider's max fee per gas, or its gas price on legacy networks
+  l1Cost?: L1CostProvider; // defaults to no L1 cost, as on L1 chains
+  bufferPercentage?: bigint; // extra percentage added on top of the price to absorb gas price movements
+};
+
+const DEFAULT_BUFFER_PERCENTAGE = 10n;
+const UINT32_MAX = 2n ** 32n - 1n;
+
+/**
+ * Extra gas required for running an assembly call() post-EIP150, mirroring `FeeCollector._getEIP150Overhead`
+ */
+export function eip150Overhead(gas: bigint): bigint {
+  return (gas & UINT32_MAX) / 63n + 1n;
+}
+
+/**
+ * Reproduce `FeeCollector._calculateRequestPriceNative` off chain
+ * @param config the RandomnessSender fee configuration
+ * @param callbackGasLimit gas limit for the consumer callback
+ * @param requestGasPriceWei gas price of the request transaction, i.e. `tx.gasprice`
+ * @param l1CostWei L1 data cost, zero on L1 chains
+ * @returns the price breakdown
+ */
+export function calculateRequestPriceNative(
+  config: FeeConfig,
+  callbackGasLimit: bigint,
+  requestGasPriceWei: bigint,
+  l1CostWei: bigint = 0n,
+): FeeBreakdown {
+  if (callbackGasLimit > config.maxGasLimit) {
+    throw new Error("Callback gasLimit too high");
+  }
+
+  const weiPerUnitGas = requestGasPriceWei > 0n ? requestGasPriceWei : config.weiPerUnitGas;
+  const overhead = eip150Overhead(callbackGasLimit);
+  const totalGas = config.gasAfterPaymentCalculation + callbackGasLimit + config.blsPairingCheckOverhead + overhead;
+  const baseFeeWei = weiPerUnitGas * totalGas;
+  const premiumPct = 100n + config.nativePremiumPercentage;
+  const flatFeeWei = 10n ** 12n * config.fulfillmentFlatFeeNativePPM;
+  const withPremiumWei = ((l1CostWei + baseFeeWei) * premiumPct) / 100n;
+
+  return {
+    callbackGasLimit,
+    weiPerUnitGas,
+    eip150Overhead: overhead,
+    totalGas,
+    baseFeeWei,
+    l1CostWei,
+    premiumWei: withPremiumWei - l1CostWei - baseFeeWei,
+    flatFeeWei,
+    totalWei: withPremiumWei + flatFeeWei,
+  };
+}
+
+/**
+ * Read the fee configuration of a RandomnessSender
+ */
+export async function getFeeConfig(randomnessSender: RandomnessSender): Promise<FeeConfig> {
+  const config = await randomnessSender.getConfig();
+  return {
+    maxGasLimit: config.maxGasLimit,
+    gasAfterPaymentCalculation: config.gasAfterPaymentCalculation,
+    fulfillmentFlatFeeNativePPM: config.fulfillmentFlatFeeNativePPM,
+    weiPerUnitGas: config.weiPerUnitGas,
+    blsPairingCheckOverhead: config.blsPairingCheckOverhead,
+    nativePremiumPercentage: config.nativePremiumPercentage,
+    gasForCallExactCheck: config.gasForCallExactCheck,
+  };
+}
+
+/**
+ * Quote a direct funding request before sending it.
+ * `calculateRequestPriceNative` depends on `tx.gasprice` and is meaningless in a static call,
+ * so the price is recomputed locally from the contract configuration and an explicit gas price.
+ * @param randomnessSender the RandomnessSender proxy
+ * @param callbackGasLimit gas limit for the consumer callback
+ * @param opts estimator options
+ * @returns the price breakdown and the recommended value to send with the request
+ */
+export async function estimateRequestPriceNative(
+  randomnessSender: RandomnessSender,
+  callbackGasLimit: BigNumberish,
+  opts: EstimatorOpts = {},
+): Promise<FeeEstimate> {
+  const config = await getFeeConfig(randomnessSender);
+  const gasPriceWei = opts.gasPriceWei ?? (await currentGasPrice(randomnessSender));
+  const l1CostWei = opts.l1Cost ? await opts.l1Cost() : 0n;
+  const bufferPercentage = opts.bufferPercentage ?? DEFAULT_BUFFER_PERCENTAGE;
+  if (bufferPercentage < 0n) {
+    throw new Error(`invalid buffer percentage: ${bufferPercentage}`);
+  }
+
+  const breakdown = calculateRequestPriceNative(config, BigInt(callbackGasLimit), gasPriceWei, l1CostWei);
+  return {
+    ...breakdown,
+    bufferPercentage,
+    recommendedWei: (breakdown.totalWei * (100n + bufferPercentage)) / 100n,
+  };
+}
+
+// The request is priced with the effective gas price of its transaction, which is at most maxFeePerGas
+async function currentGasPrice(randomnessSender: RandomnessSender): Promise<bigint> {
+  const feeData = await randomnessSender.runner!.provider!.getFeeData();
+  return feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+}
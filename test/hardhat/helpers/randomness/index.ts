@@ -0,0 +1,6 @@
+export * from "./dst";
+export * from "./verifier";
+export * from "./fees";
+export * from "./client";
+export * from "./shuffle";
+export * from "./callback-gas";
@@ -0,0 +1,134 @@
+import { BytesLike, keccak256, solidityPacked, toBigInt } from "ethers";
+
+const UINT256_MODULUS = 2n ** 256n;
+const UINT128_MAX = 2n ** 128n - 1n;
+
+// Number of Feistel rounds used by `Randomness.selectArrayIndices`
+export const SELECT_ARRAY_INDICES_ROUNDS = 10n;
+
+/**
+ * Thrown where `FeistelShuffleOptimised` reverts with `InvalidInputs()`
+ */
+export class InvalidInputsError extends Error {
+  constructor() {
+    super("InvalidInputs()");
+    this.name = "InvalidInputsError";
+  }
+}
+
+/**
+ * Compute the Feistel shuffle mapping for index `x`, as `FeistelShuffleOptimised.shuffle`
+ * @param x index of element in the list
+ * @param domain number of elements in the list
+ * @param seed random seed; determines the permutation
+ * @param rounds number of Feistel rounds to perform, must be even
+ * @returns the shuffled index
+ */
+export function shuffle(x: bigint, domain: bigint, seed: bigint, rounds: bigint): bigint {
+  if (domain === 0n || x >= domain || (rounds & 1n) === 1n) {
+    throw new InvalidInputsError();
+  }
+
+  const h = sqrt(nextPerfectSquare(domain));
+  do {
+    let L = x % h;
+    let R = x / h;
+    for (let i = 0n; i < rounds; i++) {
+      const roundHash = feistelRoundHash(R, i, seed, domain);
+      // the addition wraps around on overflow, as in the assembly implementation
+      const nextR = ((L + roundHash) % UINT256_MODULUS) % h;
+      L = R;
+      R = nextR;
+    }
+    x = h * R + L;
+  } while (x >= domain);
+  return x;
+}
+
+/**
+ * Compute the inverse Feistel shuffle mapping for the shuffled index `xPrime`, as `FeistelShuffleOptimised.deshuffle`
+ * @param xPrime shuffled index of element in the list
+ * @param domain number of elements in the list
+ * @param seed random seed; determines the permutation
+ * @param rounds number of Feistel rounds performed by the original shuffle, must be even
+ * @returns the original index
+ */
+export function deshuffle(xPrime: bigint, domain: bigint, seed: bigint, rounds: bigint): bigint {
+  if (domain === 0n || xPrime >= domain || (rounds & 1n) === 1n) {
+    throw new InvalidInputsError();
+  }
+
+  const h = sqrt(nextPerfectSquare(domain));
+  do {
+    let L = xPrime % h;
+    let R = xPrime / h;
+    for (let i = 0n; i < rounds; i++) {
+      const roundHash = feistelRoundHash(L, rounds - i - 1n, seed, domain) % h;
+      const nextL = (R + h - roundHash) % h;
+      R = L;
+      L = nextL;
+    }
+    xPrime = h * R + L;
+  } while (xPrime >= domain);
+  return xPrime;
+}
+
+/**
+ * Select `countToDraw` indices of an array of length `lengthOfArray`, as `Randomness.selectArrayIndices`.
+ * Drawing at least as many indices as there are elements returns `0..countToDraw - 1` unshuffled, including
+ * indices past the end of the array.
+ * @param lengthOfArray length of the array to draw from
+ * @param countToDraw number of indices to draw
+ * @param randomBytes the randomness delivered by the RandomnessSender
+ * @returns the selected indices
+ */
+export function selectArrayIndices(lengthOfArray: bigint, countToDraw: bigint, randomBytes: BytesLike): bigint[] {
+  if (lengthOfArray === 0n) {
+    return [];
+  }
+
+  const winners: bigint[] = [];
+  if (lengthOfArray <= countToDraw) {
+    for (let i = 0n; i < countToDraw; i++) {
+      winners.push(i);
+    }
+    return winners;
+  }
+
+  const randomness = toBigInt(randomBytes);
+  for (let i = 0n; i < countToDraw; i++) {
+    winners.push(deshuffle(i, lengthOfArray, randomness, SELECT_ARRAY_INDICES_ROUNDS));
+  }
+  return winners;
+}
+
+// keccak256(abi.encode(x, round, seed, domain))
+function feistelRoundHash(x: bigint, round: bigint, seed: bigint, domain: bigint): bigint {
+  return toBigInt(keccak256(solidityPacked(["uint256", "uint256", "uint256", "uint256"], [x, round, seed, domain])));
+}
+
+function nextPerfectSquare(domain: bigint): bigint {
+  const sqrtN = sqrt(domain);
+  if (sqrtN * sqrtN === domain) {
+    return domain;
+  }
+  if (sqrtN + 1n > UINT128_MAX) {
+    // the assembly implementation reverts without data when the square would overflow
+    throw new Error("next perfect square of domain overflows uint256");
+  }
+  return (sqrtN + 1n) ** 2n;
+}
+
+// Babylonian method, with the wrapping addition of the assembly implementation
+function sqrt(s: bigint): bigint {
+  if (s <= 3n) {
+    return s === 0n ? 0n : 1n;
+  }
+  let z = s;
+  let r = s / 2n + 1n;
+  while (r < z) {
+    z = r;
+    r = ((s / r + r) % UINT256_MODULUS) / 2n;
+  }
+  return z;
+}
@@ -0,0 +1,117 @@
+import { RandomnessSender } from "../../../../typechain-types";
+import { BlsBn254 } from "../crypto";
+import { buildDSTBytes, DEFAULT_APPLICATION_NAME } from "./dst";
+import { AbiCoder, BigNumberish, BytesLike, getBytes, hexlify, keccak256 } from "ethers";
+import type { G2 } from "mcl-wasm";
+
+// RandomnessSender requests BN254 signatures only, see `RandomnessSender.SCHEME_ID`
+const RANDOMNESS_SCHEME_ID = "BN254";
+
+// BN254 signatures are serialised on chain as abi.encodePacked(x, y)
+const SIGNATURE_LENGTH = 64;
+
+export type RandomnessVerification = {
+  requestId: bigint;
+  nonce: bigint;
+  message: `0x${string}`;
+  signature: `0x${string}`;
+  randomness: `0x${string}` | null; // null until the request has been fulfilled with a valid signature
+  valid: boolean;
+  reason?: string;
+};
+
+export type VerifierOpts = {
+  bls: BlsBn254;
+  publicKey: G2; // group public key, pinned by the caller rather than read from the chain
+  chainId?: bigint; // defaults to the chain id of the RandomnessSender's provider
+  applicationName?: string;
+};
+
+/**
+ * Rebuild the message signed for a randomness request, mirroring `RandomnessSender.messageFrom`
+ * @param nonce the request nonce
+ * @returns keccak256(abi.encode(nonce))
+ */
+export function randomnessMessageFrom(nonce: BigNumberish): `0x${string}` {
+  return keccak256(AbiCoder.defaultAbiCoder().encode(["uint256"], [nonce])) as `0x${string}`;
+}
+
+/**
+ * Derive the randomness delivered to the consumer from a signature, as in `RandomnessSender.onSignatureReceived`
+ */
+export function randomnessFromSignature(signature: BytesLike): `0x${string}` {
+  return keccak256(signature) as `0x${string}`;
+}
+
+/**
+ * Verify a BN254 signature on a randomness message, mirroring `Randomness.verify`
+ * @param bls mcl wrapper
+ * @param publicKey group public key of the BN254 signature scheme
+ * @param message the message returned by `RandomnessSender.messageFrom`
+ * @param signature the signature delivered by the threshold network, encoded as abi.encodePacked(x, y)
+ * @param chainId chain id the signature scheme is deployed on
+ * @param applicationName application name the signature scheme is deployed with
+ * @returns true if the signature is valid
+ */
+export function verifyRandomnessSignature(
+  bls: BlsBn254,
+  publicKey: G2,
+  message: BytesLike,
+  signature: BytesLike,
+  chainId: bigint,
+  applicationName: string = DEFAULT_APPLICATION_NAME,
+): boolean {
+  if (getBytes(signature).length !== SIGNATURE_LENGTH) {
+    return false;
+  }
+  const sig = bls.g1FromEvmHex(signature);
+  if (!sig.isValid() || sig.isZero()) {
+    return false;
+  }
+  const M = bls.hashToPoint(buildDSTBytes(RANDOMNESS_SCHEME_ID, chainId, applicationName), getBytes(message));
+  return bls.verify(M, publicKey, sig);
+}
+
+/**
+ * Verify the randomness delivered for a request without trusting the RPC to execute the verification.
+ * Only the stored request is read from the chain; the message, hash to point, pairing check and randomness
+ * derivation are all recomputed locally.
+ * @param randomnessSender the RandomnessSender proxy
+ * @param requestId the request id returned by `requestRandomness`
+ * @param opts verification options
+ * @returns the verification result, with the recomputed randomness if the signature is valid
+ */
+export async function verifyRandomnessRequest(
+  randomnessSender: RandomnessSender,
+  requestId: BigNumberish,
+  opts: VerifierOpts,
+): Promise<RandomnessVerification> {
+  const request = await randomnessSender.getRequest(requestId);
+  const chainId = opts.chainId ?? (await randomnessSender.runner!.provider!.getNetwork()).chainId;
+
+  const message = randomnessMessageFrom(request.nonce);
+  const signature = hexlify(request.signature) as `0x${string}`;
+  const result: RandomnessVerification = {
+    requestId: BigInt(requestId),
+    nonce: request.nonce,
+    message,
+    signature,
+    randomness: null,
+    valid: false,
+  };
+
+  if (request.nonce === 0n) {
+    return { ...result, reason: "no request for request id" };
+  }
+  if (hexlify(request.message) !== message) {
+    return { ...result, reason: "stored message does not match messageFrom(nonce)" };
+  }
+  if (getBytes(signature).length === 0) {
+    return { ...result, reason: "request not fulfilled" };
+  }
+  if (!verifyRandomnessSignature(opts.bls, opts.publicKey, message, signature, chainId, opts.applicationName)) {
+    return { ...result, reason: "signature verification failed" };
+  }
+
+  return { ...result, randomness: randomnessFromSignature(signature), valid: true };
+}
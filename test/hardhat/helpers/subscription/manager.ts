@@ -0,0 +1,239 @@
+import { SubscriptionAPI } from "../../../../typechain-types";
+import { decodeRevert, IndexOutOfRangeError, InvalidSubscriptionError, MustBeRequestedOwnerError } from "../errors";
+import { AddressLike, BigNumberish, ContractTransactionResponse, resolveAddress, toBigInt } from "ethers";
+
+const DEFAULT_PAGE_SIZE = 100n;
+
+/**
+ * State of a subscription as returned by `getSubscription` and `pendingRequestExists`
+ */
+export type SubscriptionSnapshot = {
+  subId: bigint;
+  nativeBalance: bigint;
+  reqCount: bigint;
+  owner: string;
+  consumers: string[];
+  pendingRequestExists: boolean;
+};
+
+/**
+ * Manages subscriptions on a contract extending `SubscriptionAPI`, such as the RandomnessSender, checking up front the
+ * conditions the contract would otherwise revert on
+ */
+export class SubscriptionManager {
+  /**
+   * @param subscriptions the subscription contract, connected to the account managing subscriptions
+   */
+  constructor(public readonly subscriptions: SubscriptionAPI) {}
+
+  /**
+   * Create a subscription owned by the connected account, optionally funding it
+   * @param nativeAmountWei initial funding, none if omitted
+   */
+  public async create(nativeAmountWei: bigint = 0n): Promise<SubscriptionSnapshot> {
+    const receipt = await mined(await this.subscriptions.createSubscription());
+    const event = receipt.logs
+      .map((log) => this.subscriptions.interface.parseLog(log))
+      .find((log) => log?.name === "SubscriptionCreated");
+    if (!event) {
+      throw new Error(`no SubscriptionCreated event in ${receipt.hash}`);
+    }
+
+    const subId: bigint = event.args.subId;
+    return nativeAmountWei > 0n ? this.fund(subId, nativeAmountWei) : this.get(subId);
+  }
+
+  /**
+   * Read a subscription
+   * @throws if the subscription does not exist
+   */
+  public async get(subId: BigNumberish): Promise<SubscriptionSnapshot> {
+    let subscription;
+    try {
+      subscription = await this.subscriptions.getSubscription(subId);
+    } catch (err) {
+      if (decodeRevert(err) instanceof InvalidSubscriptionError) {
+        throw new Error(`subscription ${subId} does not exist`);
+      }
+      throw err;
+    }
+    const [nativeBalance, reqCount, owner, consumers] = subscription;
+    return {
+      subId: toBigInt(subId),
+      nativeBalance,
+      reqCount,
+      owner,
+      consumers: [...consumers],
+      pendingRequestExists: await this.subscriptions.pendingRequestExists(subId),
+    };
+  }
+
+  /**
+   * Add native funds to a subscription; anyone may fund any subscription
+   */
+  public async fund(subId: BigNumberish, nativeAmountWei: bigint): Promise<SubscriptionSnapshot> {
+    if (nativeAmountWei <= 0n) {
+      throw new Error(`funding amount must be positive: ${nativeAmountWei}`);
+    }
+    await this.get(subId);
+    await mined(await this.subscriptions.fundSubscriptionWithNative(subId, { value: nativeAmountWei }));
+    return this.get(subId);
+  }
+
+  /**
+   * Allow a consumer to make requests charged to a subscription; adding an existing consumer does nothing
+   * @throws if the connected account is not the owner or the subscription already has `MAX_CONSUMERS` consumers
+   */
+  public async addConsumer(subId: BigNumberish, consumer: AddressLike): Promise<SubscriptionSnapshot> {
+    const subscription = await this.owned(subId);
+    const consumerAddress = await resolveAddress(consumer);
+    if (includesAddress(subscription.consumers, consumerAddress)) {
+      return subscription;
+    }
+    const maxConsumers = await this.subscriptions.MAX_CONSUMERS();
+    if (subscription.consumers.length >= maxConsumers) {
+      throw new Error(`subscription ${subId} already has the maximum of ${maxConsumers} consumers`);
+    }
+
+    await mined(await this.subscriptions.addConsumer(subId, consumerAddress));
+    return this.get(subId);
+  }
+
+  /**
+   * Revoke a consumer's access to a subscription
+   * @throws if the connected account is not the owner, the consumer is unknown, or a request is still pending
+   */
+  public async removeConsumer(subId: BigNumberish, consumer: AddressLike): Promise<SubscriptionSnapshot> {
+    const subscription = await this.owned(subId);
+    const consumerAddress = await resolveAddress(consumer);
+    if (!includesAddress(subscription.consumers, consumerAddress)) {
+      throw new Error(`${consumerAddress} is not a consumer of subscription ${subId}`);
+    }
+    assertNoPendingRequest(subscription);
+
+    await mined(await this.subscriptions.removeConsumer(subId, consumerAddress));
+    return this.get(subId);
+  }
+
+  /**
+   * Cancel a subscription, refunding its remaining balance
+   * @param to recipient of the remaining balance, defaults to the connected account
+   * @returns the subscription as it was just before cancellation
+   * @throws if the connected account is not the owner or a request is still pending
+   */
+  public async cancel(subId: BigNumberish, to?: AddressLike): Promise<SubscriptionSnapshot> {
+    const subscription = await this.owned(subId);
+    assertNoPendingRequest(subscription);
+
+    const recipient = to === undefined ? await this.signerAddress() : await resolveAddress(to);
+    await mined(await this.subscriptions.cancelSubscription(subId, recipient));
+    return subscription;
+  }
+
+  /**
+   * First step of an ownership transfer, to be completed by `newOwner` with `acceptOwnerTransfer`
+   * @throws if the connected account is not the owner
+   */
+  public async requestOwnerTransfer(subId: BigNumberish, newOwner: AddressLike): Promise<SubscriptionSnapshot> {
+    const subscription = await this.owned(subId);
+    await mined(await this.subscriptions.requestSubscriptionOwnerTransfer(subId, await resolveAddress(newOwner)));
+    return subscription;
+  }
+
+  /**
+   * Second step of an ownership transfer, accepting ownership for the connected account
+   * @throws if the connected account is not the requested owner
+   */
+  public async acceptOwnerTransfer(subId: BigNumberish): Promise<SubscriptionSnapshot> {
+    await this.get(subId);
+    try {
+      await this.subscriptions.acceptSubscriptionOwnerTransfer.staticCall(subId);
+    } catch (err) {
+      if (decodeRevert(err) instanceof MustBeRequestedOwnerError) {
+        throw new Error(`${await this.signerAddress()} is not the requested owner of subscription ${subId}`);
+      }
+      throw err;
+    }
+
+    await mined(await this.subscriptions.acceptSubscriptionOwnerTransfer(subId));
+    return this.get(subId);
+  }
+
+  /**
+   * Ids of every active subscription, fetched page by page from `getActiveSubscriptionIds`
+   * @param pageSize number of ids fetched per call
+   */
+  public async activeSubscriptionIds(pageSize: bigint = DEFAULT_PAGE_SIZE): Promise<bigint[]> {
+    if (pageSize <= 0n) {
+      throw new Error(`invalid page size: ${pageSize}`);
+    }
+
+    const ids: bigint[] = [];
+    for (;;) {
+      let page: bigint[];
+      try {
+        page = await this.subscriptions.getActiveSubscriptionIds(ids.length, pageSize);
+      } catch (err) {
+        // the start index is past the last subscription, which is also how an empty set reports itself
+        if (decodeRevert(err) instanceof IndexOutOfRangeError) {
+          return ids;
+        }
+        throw err;
+      }
+      ids.push(...page);
+      if (BigInt(page.length) < pageSize) {
+        return ids;
+      }
+    }
+  }
+
+  /**
+   * Snapshots of every active subscription, optionally only those owned by `owner`
+   */
+  public async list(opts: { owner?: AddressLike; pageSize?: bigint } = {}): Promise<SubscriptionSnapshot[]> {
+    const owner = opts.owner === undefined ? undefined : await resolveAddress(opts.owner);
+    const snapshots: SubscriptionSnapshot[] = [];
+    for (const subId of await this.activeSubscriptionIds(opts.pageSize)) {
+      const snapshot = await this.get(subId);
+      if (owner === undefined || snapshot.owner.toLowerCase() === owner.toLowerCase()) {
+        snapshots.push(snapshot);
+      }
+    }
+    return snapshots;
+  }
+
+  private async owned(subId: BigNumberish): Promise<SubscriptionSnapshot> {
+    const subscription = await this.get(subId);
+    const signer = await this.signerAddress();
+    if (subscription.owner.toLowerCase() !== signer.toLowerCase()) {
+      throw new Error(`subscription ${subId} is owned by ${subscription.owner}, not ${signer}`);
+    }
+    return subscription;
+  }
+
+  private async signerAddress(): Promise<string> {
+    const runner = this.subscriptions.runner;
+    if (!runner || !("getAddress" in runner) || typeof runner.getAddress !== "function") {
+      throw new Error("subscription contract is not connected to a signer");
+    }
+    return runner.getAddress();
+  }
+}
+
+function assertNoPendingRequest(subscription: SubscriptionSnapshot) {
+  if (subscription.pendingRequestExists) {
+    throw new Error(`subscription ${subscription.subId} has pending requests`);
+  }
+}
+
+function includesAddress(addresses: string[], address: string): boolean {
+  return addresses.some((a) => a.toLowerCase() === address.toLowerCase());
+}
+
+async function mined(tx: ContractTransactionResponse) {
+  const receipt = await tx.wait();
+  if (!receipt) {
+    throw new Error(`transaction ${tx.hash} was not mined`);
+  }
+  return receipt;
+}
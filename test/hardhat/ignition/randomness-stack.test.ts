@@ -0,0 +1,45 @@
+import RandomnessSenderModule from "../../../ignition/modules/RandomnessSender";
+import { toDeploymentParameters } from "../../../ignition/parameters";
+import { RandomnessSender__factory, SignatureSender__factory } from "../../../typechain-types";
+import { BlsBn254 } from "../helpers/crypto";
+import { DEFAULT_FEE_CONFIG, publicKeyBytes } from "../helpers/fixtures";
+import { getFeeConfig } from "../helpers/randomness";
+import { expect } from "chai";
+import { ethers, ignition } from "hardhat";
+
+// BLS12-381 G2 public key from the Foundry `Deployment` base test
+const BLS12381_PUBLIC_KEY =
+  "0x0eb3c62c162b4bf3da2df034c4ebf8f753c929a6e2424269f41558c8d3c6358a38bc199199a3cc4f3c275525f72e6ed00ea36aa928f4d6a58765ac61398baed7d1b195b71f7de3714fb0b87edf71792313a5b1650264cbfff03f78bafbd6590001d140f45a64fcf285f51f2e55ed11432e3829cd027dc2e6adb4a2fbc99e2aac0faf0aef517b525a3d5d80aa6cc41acd12c785bd8662d22ce36627e15ea5de6d3cb642be582410da7c95dc1ffc9bff902f05fff594f4956b2137cde3f172c71d";
+
+describe("RandomnessSenderModule", () => {
+  it("deploys, registers and configures the randomness stack", async () => {
+    const bls = await BlsBn254.create();
+    const { pubKey } = bls.createKeyPair();
+    const [admin] = await ethers.getSigners();
+
+    const deployed = await ignition.deploy(RandomnessSenderModule, {
+      parameters: toDeploymentParameters({
+        bn254PublicKey: publicKeyBytes(bls, pubKey),
+        bls12381PublicKey: BLS12381_PUBLIC_KEY,
+        feeConfig: DEFAULT_FEE_CONFIG,
+      }),
+    });
+
+    const provider = deployed.signatureSchemeAddressProvider;
+    expect(await provider.getSignatureSchemeAddress("BN254")).to.eq(await deployed.bn254SignatureScheme.getAddress());
+    expect(await provider.getSignatureSchemeAddress("BLS12381")).to.eq(
+      await deployed.bls12381SignatureScheme.getAddress(),
+    );
+    expect(await provider.getSignatureSchemeAddress("BLS12381Compressed")).to.eq(
+      await deployed.bls12381CompressedSignatureScheme.getAddress(),
+    );
+
+    const signatureSender = SignatureSender__factory.connect(await deployed.signatureSender.getAddress(), admin);
+    expect(await signatureSender.signatureSchemeAddressProvider()).to.eq(await provider.getAddress());
+    expect(await signatureSender.hasRole(await signatureSender.ADMIN_ROLE(), admin.address)).to.eq(true);
+
+    const randomnessSender = RandomnessSender__factory.connect(await deployed.randomnessSender.getAddress(), admin);
+    expect(await randomnessSender.signatureSender()).to.eq(await signatureSender.getAddress());
+    expect(await getFeeConfig(randomnessSender)).to.deep.eq(DEFAULT_FEE_CONFIG);
+  });
+});
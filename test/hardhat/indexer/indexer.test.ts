@@ -0,0 +1,158 @@
+import { MockRandomnessReceiver__factory, MockRevertingRandomnessReceiver__factory } from "../../../typechain-types";
+import { BlsBn254 } from "../helpers/crypto";
+import { deployRandomnessStack, RandomnessStack } from "../helpers/fixtures";
+import { LocalFulfiller, signMessageHash } from "../helpers/fulfiller";
+import { FileStore, RequestIndexer, requestStatus } from "../helpers/indexer";
+import { RandomnessClient } from "../helpers/randomness";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { mine } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { toUtf8Bytes } from "ethers";
+import { mkdtempSync, rmSync } from "fs";
+import { ethers, network } from "hardhat";
+import type { Fr, G2 } from "mcl-wasm";
+import { tmpdir } from "os";
+import { join } from "path";
+
+describe("RequestIndexer", () => {
+  let bls: BlsBn254;
+  let secretKey: Fr;
+  let pubKey: G2;
+  before(async () => {
+    bls = await BlsBn254.create();
+    ({ secretKey, pubKey } = bls.createKeyPair());
+  });
+
+  let admin: SignerWithAddress;
+  let stack: RandomnessStack;
+  let client: RandomnessClient;
+  let fulfiller: LocalFulfiller;
+  let root: string;
+  let store: FileStore;
+  let fromBlock: number;
+  beforeEach(async () => {
+    [admin] = await ethers.getSigners();
+    stack = await deployRandomnessStack(admin, bls, pubKey);
+    client = new RandomnessClient(stack.randomnessSender);
+    fulfiller = await LocalFulfiller.create(stack.signatureSender, bls, secretKey);
+    fromBlock = await ethers.provider.getBlockNumber();
+    root = mkdtempSync(join(tmpdir(), "indexer-"));
+    store = new FileStore(join(root, "requests.json"));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  function createIndexer(opts = {}) {
+    return RequestIndexer.create(stack.signatureSender, stack.randomnessSender, store, { fromBlock, ...opts });
+  }
+
+  it("joins signature and randomness events into one record per request", async () => {
+    const delivered = await client.requestDirectFunding(100_000);
+    const consumer = await new MockRevertingRandomnessReceiver__factory(admin).deploy(
+      await stack.randomnessSender.getAddress(),
+      admin.address,
+    );
+    await consumer.rollDiceWithDirectFunding(100_000, { value: ethers.parseEther("10") });
+    const failedId = await consumer.requestId();
+    await fulfiller.fulfillAll();
+    const pending = await client.requestDirectFunding(100_000);
+    await stack.signatureSender.requestSignature("BN254", toUtf8Bytes("hello"), "0x");
+
+    const indexer = await createIndexer({ batchSize: 2 });
+    const result = await indexer.sync();
+    expect(result).to.deep.include({ fromBlock, toBlock: await ethers.provider.getBlockNumber(), events: 11 });
+
+    const records = indexer.records();
+    expect(records.map((r) => [r.requestId, requestStatus(r)])).to.deep.eq([
+      [delivered.requestId, "fulfilled"],
+      [failedId, "failed"],
+      [pending.requestId, "pending"],
+      [pending.requestId + 1n, "pending"],
+    ]);
+
+    const [fulfilled, failed, , signatureOnly] = records;
+    const { randomness } = await delivered.wait();
+    expect(fulfilled.randomness).to.deep.include({ requester: admin.address, nonce: delivered.nonce });
+    expect(fulfilled.randomness!.delivered!.randomness).to.eq(randomness);
+    expect(fulfilled.signature!.fulfilled!.signature).to.eq(fulfilled.randomness!.delivered!.signature);
+    expect(fulfilled.signature!.requested.transactionHash).to.eq(delivered.transactionHash);
+    expect(failed.signature!.fulfilled).to.not.eq(undefined);
+    expect(failed.randomness!.callbackFailed).to.not.eq(undefined);
+    expect(signatureOnly.randomness).to.eq(undefined);
+    expect(signatureOnly.signature!.callback).to.eq(admin.address);
+  });
+
+  it("reports a request fulfilled by a retry after its callback failed", async () => {
+    const consumer = await new MockRandomnessReceiver__factory(admin).deploy(
+      await stack.randomnessSender.getAddress(),
+      admin.address,
+    );
+    // the subscription is not funded, so paying for the first fulfillment reverts the SignatureSender's callback
+    await consumer.createSubscriptionAndFundNative();
+    await consumer.rollDiceWithSubscription(100_000);
+    const requestId = await consumer.requestId();
+    await fulfiller.fulfillAll();
+
+    const indexer = await createIndexer();
+    await indexer.sync();
+    expect(requestStatus(indexer.get(requestId)!)).to.eq("failed");
+
+    await consumer.topUpSubscriptionNative({ value: ethers.parseEther("10") });
+    const { messageHash } = await stack.signatureSender.getRequest(requestId);
+    await stack.signatureSender.fulfillSignatureRequest(requestId, signMessageHash(bls, messageHash, secretKey));
+    expect(await stack.signatureSender.hasErrored(requestId)).to.eq(false);
+
+    await indexer.sync();
+    const record = indexer.get(requestId)!;
+    expect(record.signature!.callbackFailed).to.not.eq(undefined);
+    expect(record.randomness!.delivered).to.not.eq(undefined);
+    expect(requestStatus(record)).to.eq("fulfilled");
+  });
+
+  it("resumes from the stored checkpoint", async () => {
+    const first = await client.requestDirectFunding(100_000);
+    const { toBlock } = await (await createIndexer()).sync();
+
+    await fulfiller.fulfillAll();
+    const second = await client.requestDirectFunding(100_000);
+    const resumed = await createIndexer();
+    expect(resumed.checkpoint).to.eq(toBlock);
+    expect((await resumed.sync()).fromBlock).to.eq(toBlock + 1);
+    expect(resumed.records().map(requestStatus)).to.deep.eq(["fulfilled", "pending"]);
+    expect(resumed.get(second.requestId)!.randomness!.requested.transactionHash).to.eq(second.transactionHash);
+    expect(resumed.get(first.requestId)!.randomness!.delivered).to.not.eq(undefined);
+
+    const other = await deployRandomnessStack(admin, bls, pubKey);
+    await expect(RequestIndexer.create(other.signatureSender, other.randomnessSender, store)).to.be.rejectedWith(
+      "store holds chain",
+    );
+  });
+
+  it("rolls back events from reorged blocks", async () => {
+    const request = await client.requestDirectFunding(100_000);
+    const snapshot = await network.provider.send("evm_snapshot");
+    const ancestor = await ethers.provider.getBlockNumber();
+    await fulfiller.fulfillAll();
+    await mine(2);
+
+    const indexer = await createIndexer({ batchSize: 1 });
+    await indexer.sync();
+    expect(requestStatus(indexer.get(request.requestId)!)).to.eq("fulfilled");
+
+    // replace the fulfillment with a new request on a longer fork
+    await network.provider.send("evm_revert", [snapshot]);
+    const replacement = await client.requestDirectFunding(100_000);
+    await mine(5);
+
+    const result = await indexer.sync();
+    expect(result.rolledBackTo).to.eq(ancestor);
+    expect(result.fromBlock).to.eq(ancestor + 1);
+    expect(indexer.records().map((r) => [r.requestId, requestStatus(r)])).to.deep.eq([
+      [request.requestId, "pending"],
+      [replacement.requestId, "pending"],
+    ]);
+    expect((await createIndexer()).records()).to.deep.eq(indexer.records());
+  });
+});
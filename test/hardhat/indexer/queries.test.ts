@@ -0,0 +1,138 @@
+import { SubscriptionAPI__factory } from "../../../typechain-types";
+import { BlsBn254 } from "../helpers/crypto";
+import { deployRandomnessStack, RandomnessStack } from "../helpers/fixtures";
+import { LocalFulfiller } from "../helpers/fulfiller";
+import { RequestQueries, RequestQuery } from "../helpers/indexer";
+import { RandomnessClient } from "../helpers/randomness";
+import { SubscriptionManager } from "../helpers/subscription";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { parseEther } from "ethers";
+import { ethers } from "hardhat";
+
+describe("RequestQueries", () => {
+  let admin: SignerWithAddress;
+  let other: SignerWithAddress;
+  let stack: RandomnessStack;
+  let fromBlock: number;
+  let funded: bigint;
+  let unfunded: bigint;
+  let ids: bigint[];
+  let lastRequestedAt: bigint;
+  beforeEach(async () => {
+    [admin, other] = await ethers.getSigners();
+    const bls = await BlsBn254.create();
+    const { secretKey, pubKey } = bls.createKeyPair();
+    stack = await deployRandomnessStack(admin, bls, pubKey);
+    fromBlock = await ethers.provider.getBlockNumber();
+
+    const manager = new SubscriptionManager(
+      SubscriptionAPI__factory.connect(await stack.randomnessSender.getAddress(), admin),
+    );
+    ({ subId: funded } = await manager.create(parseEther("10")));
+    ({ subId: unfunded } = await manager.create());
+    await manager.addConsumer(funded, other.address);
+    await manager.addConsumer(unfunded, other.address);
+
+    const fulfiller = await LocalFulfiller.create(stack.signatureSender, bls, secretKey);
+    const adminClient = new RandomnessClient(stack.randomnessSender);
+    const otherClient = new RandomnessClient(stack.randomnessSender.connect(other));
+    const fulfilled = await adminClient.requestDirectFunding(100_000);
+    const subscribed = await otherClient.requestWithSubscription(100_000, funded);
+    // the unfunded subscription cannot pay, so the SignatureSender callback reverts
+    const errored = await otherClient.requestWithSubscription(100_000, unfunded);
+    await fulfiller.fulfillAll();
+    await time.increase(1000);
+    const inFlight = await otherClient.requestWithSubscription(100_000, funded);
+    ids = [fulfilled.requestId, subscribed.requestId, errored.requestId, inFlight.requestId];
+    lastRequestedAt = inFlight.requestedAt;
+  });
+
+  async function idsOf(queries: RequestQueries, query: RequestQuery) {
+    return (await queries.query(query)).items.map((item) => item.requestId);
+  }
+
+  it("filters by requester, subscription, status and time", async () => {
+    const queries = new RequestQueries(stack.randomnessSender, stack.signatureSender, { fromBlock });
+    const [fulfilled, subscribed, errored, inFlight] = ids;
+
+    expect(await idsOf(queries, {})).to.deep.eq(ids);
+    expect(await idsOf(queries, { requester: other.address })).to.deep.eq([subscribed, errored, inFlight]);
+    expect(await idsOf(queries, { subId: funded })).to.deep.eq([subscribed, inFlight]);
+    expect(await idsOf(queries, { subId: 0 })).to.deep.eq([fulfilled]);
+    expect(await idsOf(queries, { status: "errored" })).to.deep.eq([errored]);
+    expect(await idsOf(queries, { status: "inFlight" })).to.deep.eq([inFlight]);
+    expect(await idsOf(queries, { status: "fulfilled", requester: other.address })).to.deep.eq([subscribed]);
+    expect(await idsOf(queries, { fromTime: lastRequestedAt })).to.deep.eq([inFlight]);
+    expect(await idsOf(queries, { toTime: lastRequestedAt - 1n })).to.deep.eq([fulfilled, subscribed, errored]);
+
+    const [summary] = (await queries.query({ status: "inFlight" })).items;
+    expect(summary).to.deep.include({ requester: other.address, subId: funded, requestedAt: lastRequestedAt });
+    expect(summary.callbackGasLimit).to.eq(100_000n);
+  });
+
+  it("pages with cursors", async () => {
+    const queries = new RequestQueries(stack.randomnessSender, stack.signatureSender, { fromBlock });
+    const first = await queries.query({ limit: 2 });
+    expect(first.items.map((item) => item.requestId)).to.deep.eq(ids.slice(0, 2));
+    expect(first.cursor).to.be.a("string");
+
+    const second = await queries.query({ limit: 2, cursor: first.cursor });
+    expect(second.items.map((item) => item.requestId)).to.deep.eq(ids.slice(2));
+    expect(second.cursor).to.eq(undefined);
+
+    const filtered = await queries.query({ limit: 1, requester: other.address, cursor: first.cursor });
+    expect(filtered.items.map((item) => item.requestId)).to.deep.eq([ids[2]]);
+    expect(await idsOf(queries, { limit: 1, requester: other.address, cursor: filtered.cursor })).to.deep.eq([ids[3]]);
+    await expect(queries.query({ cursor: "nope" })).to.be.rejectedWith("invalid cursor");
+  });
+
+  it("reads request times in ranges of at most batchSize blocks", async () => {
+    const queries = new RequestQueries(stack.randomnessSender, stack.signatureSender, { fromBlock, batchSize: 3 });
+    const ranges: number[] = [];
+    const getLogs = ethers.provider.getLogs;
+    ethers.provider.getLogs = (filter) => {
+      const range = filter as { fromBlock: number; toBlock: number };
+      ranges.push(range.toBlock - range.fromBlock + 1);
+      return getLogs.call(ethers.provider, filter);
+    };
+    try {
+      const { items } = await queries.query();
+      expect(items.map((item) => item.requestedAt)).to.not.include(undefined);
+      expect(items[items.length - 1].requestedAt).to.eq(lastRequestedAt);
+    } finally {
+      ethers.provider.getLogs = getLogs;
+    }
+    expect(ranges.length).to.be.greaterThan(1);
+    expect(ranges.every((range) => range <= 3)).to.eq(true);
+  });
+
+  it("rebuilds the same answers from events when the views do not fit in an eth_call", async () => {
+    const views = new RequestQueries(stack.randomnessSender, stack.signatureSender, { fromBlock });
+    const fallbacks: unknown[] = [];
+    const events = new RequestQueries(stack.randomnessSender, stack.signatureSender, {
+      fromBlock,
+      batchSize: 3,
+      viewGasLimit: 25_000n,
+      onFallback: (err) => fallbacks.push(err),
+    });
+
+    const queries: RequestQuery[] = [
+      {},
+      { requester: other.address, limit: 2 },
+      { subId: funded },
+      { status: "errored" },
+      { fromTime: lastRequestedAt },
+    ];
+    for (const query of queries) {
+      const expected = await views.query(query);
+      const actual = await events.query(query);
+      expect(expected.source).to.eq("views");
+      expect(actual.source).to.eq("events");
+      expect(actual.items).to.deep.eq(expected.items);
+      expect(actual.cursor).to.eq(expected.cursor);
+    }
+    expect(fallbacks).to.have.length(queries.length);
+  });
+});
@@ -0,0 +1,262 @@
+import { MockRandomnessReceiver__factory, MockRevertingRandomnessReceiver__factory } from "../../../typechain-types";
+import { BlsBn254 } from "../helpers/crypto";
+import { deployRandomnessStack, RandomnessStack } from "../helpers/fixtures";
+import { LocalFulfiller } from "../helpers/fulfiller";
+import {
+  RequestState,
+  RequestStateResolver,
+  RequestStateTracker,
+  RequestTransition,
+  SigningState,
+} from "../helpers/lifecycle";
+import { RandomnessClient } from "../helpers/randomness";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { mine } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { keccak256, parseEther, toUtf8Bytes } from "ethers";
+import { ethers, network } from "hardhat";
+
+describe("RequestStateResolver", () => {
+  let admin: SignerWithAddress;
+  let stack: RandomnessStack;
+  let fulfiller: LocalFulfiller;
+  let client: RandomnessClient;
+  let resolver: RequestStateResolver;
+  beforeEach(async () => {
+    [admin] = await ethers.getSigners();
+    const bls = await BlsBn254.create();
+    const { secretKey, pubKey } = bls.createKeyPair();
+    stack = await deployRandomnessStack(admin, bls, pubKey);
+    fulfiller = await LocalFulfiller.create(stack.signatureSender, bls, secretKey);
+    client = new RandomnessClient(stack.randomnessSender);
+    resolver = new RequestStateResolver(stack.signatureSender, stack.randomnessSender, { confirmations: 3 });
+  });
+
+  it("moves a randomness request from requested through signing to delivered", async () => {
+    const request = await client.requestDirectFunding(100_000);
+    const requested = await resolver.resolve(request.requestId);
+    expect(requested).to.deep.include({
+      status: "requested",
+      confirmations: 1,
+      callback: await stack.randomnessSender.getAddress(),
+      consumer: admin.address,
+      requestedAt: request.requestedAt,
+      transactionHash: request.transactionHash,
+    });
+
+    await mine(2);
+    expect(await resolver.resolve(request.requestId)).to.deep.include({ status: "signing", confirmations: 3 });
+
+    await fulfiller.fulfillAll();
+    const { randomness, signature, transactionHash } = await request.wait();
+    expect(await resolver.resolve(request.requestId)).to.deep.include({
+      status: "delivered",
+      signature,
+      randomness,
+      deliveredIn: transactionHash,
+    });
+    expect(randomness).to.eq(keccak256(signature));
+  });
+
+  it("tells signature callback failures from consumer callback failures", async () => {
+    const reverting = await new MockRevertingRandomnessReceiver__factory(admin).deploy(
+      await stack.randomnessSender.getAddress(),
+      admin.address,
+    );
+    await reverting.rollDiceWithDirectFunding(100_000, { value: parseEther("10") });
+    const consumerFailed = await reverting.requestId();
+    // the subscription is not funded, so paying for the fulfillment reverts the SignatureSender's callback
+    const unfunded = await new MockRandomnessReceiver__factory(admin).deploy(
+      await stack.randomnessSender.getAddress(),
+      admin.address,
+    );
+    await unfunded.createSubscriptionAndFundNative();
+    await unfunded.rollDiceWithSubscription(100_000);
+    const signatureFailed = await unfunded.requestId();
+    const [, { transactionHash: failedIn }] = await fulfiller.fulfillAll();
+
+    expect(await resolver.resolve(consumerFailed)).to.deep.include({
+      status: "callbackFailed",
+      stage: "randomness",
+      consumer: await reverting.getAddress(),
+    });
+    expect(await resolver.resolve(signatureFailed)).to.deep.include({
+      status: "callbackFailed",
+      stage: "signature",
+      consumer: await unfunded.getAddress(),
+      failedIn,
+    });
+  });
+
+  it("resolves plain signature requests and unknown ids", async () => {
+    await stack.signatureSender.requestSignature("BN254", toUtf8Bytes("hello"), "0x");
+    const [{ request, signature, transactionHash }] = await fulfiller.fulfillAll();
+
+    const state = await resolver.resolve(request.requestId);
+    expect(state).to.deep.include({
+      status: "delivered",
+      callback: admin.address,
+      consumer: admin.address,
+      signature,
+      deliveredIn: transactionHash,
+    });
+    expect(state).to.not.have.property("randomness");
+    expect(await resolver.resolve(request.requestId + 1n)).to.deep.include({ status: "unknown" });
+  });
+
+  it("reads events in ranges of at most batchSize blocks", async () => {
+    const request = await client.requestDirectFunding(100_000);
+    await mine(10);
+    const [{ transactionHash }] = await fulfiller.fulfillAll();
+
+    const batched = new RequestStateResolver(stack.signatureSender, stack.randomnessSender, { batchSize: 3 });
+    const ranges: number[] = [];
+    const getLogs = ethers.provider.getLogs;
+    ethers.provider.getLogs = (filter) => {
+      const range = filter as { fromBlock: number; toBlock: number };
+      ranges.push(range.toBlock - range.fromBlock + 1);
+      return getLogs.call(ethers.provider, filter);
+    };
+    try {
+      expect(await batched.resolve(request.requestId)).to.deep.include({
+        status: "delivered",
+        transactionHash: request.transactionHash,
+        deliveredIn: transactionHash,
+      });
+    } finally {
+      ethers.provider.getLogs = getLogs;
+    }
+    expect(ranges.length).to.be.greaterThan(2);
+    expect(ranges.every((range) => range <= 3)).to.eq(true);
+  });
+});
+
+describe("RequestStateTracker", () => {
+  let admin: SignerWithAddress;
+  let stack: RandomnessStack;
+  let fulfiller: LocalFulfiller;
+  let tracker: RequestStateTracker;
+  beforeEach(async () => {
+    [admin] = await ethers.getSigners();
+    const bls = await BlsBn254.create();
+    const { secretKey, pubKey } = bls.createKeyPair();
+    stack = await deployRandomnessStack(admin, bls, pubKey);
+    fulfiller = await LocalFulfiller.create(stack.signatureSender, bls, secretKey);
+    tracker = new RequestStateTracker(new RequestStateResolver(stack.signatureSender, stack.randomnessSender));
+  });
+
+  it("emits each transition once, to the listeners of the new state", async () => {
+    const client = new RandomnessClient(stack.randomnessSender);
+    const first = await client.requestDirectFunding(100_000);
+    const second = await client.requestDirectFunding(100_000);
+    tracker.watch(first.requestId, second.requestId);
+
+    const all: RequestTransition[] = [];
+    const signing: SigningState[] = [];
+    const delivered: string[] = [];
+    tracker.on("*", (transition) => all.push(transition));
+    tracker.on("signing", ({ to }) => signing.push(to));
+    const unsubscribe = tracker.on("delivered", ({ to }) => delivered.push(to.signature));
+
+    await tracker.poll();
+    expect(all.map(({ from, to }) => [from, to.status])).to.deep.eq([
+      [undefined, "signing"],
+      [undefined, "signing"],
+    ]);
+    expect(signing.map((state) => state.requestId)).to.deep.eq([first.requestId, second.requestId]);
+    expect(await tracker.poll()).to.deep.eq([]);
+
+    await fulfiller.step();
+    const [transition] = await tracker.poll();
+    expect(transition).to.deep.include({ requestId: first.requestId, expected: true });
+    expect(transition.from!.status).to.eq("signing");
+    expect(delivered).to.deep.eq([(await first.wait()).signature]);
+
+    unsubscribe();
+    await fulfiller.step();
+    expect((await tracker.poll()).map(({ to }) => to.status)).to.deep.eq(["delivered"]);
+    expect(delivered).to.have.length(1);
+    expect(all).to.have.length(4);
+    expect(tracker.state(second.requestId)!.status).to.eq("delivered");
+  });
+
+  it("flags transitions the contracts cannot make on their own", async () => {
+    const unfunded = await new MockRandomnessReceiver__factory(admin).deploy(
+      await stack.randomnessSender.getAddress(),
+      admin.address,
+    );
+    await unfunded.createSubscriptionAndFundNative();
+    await unfunded.rollDiceWithSubscription(100_000);
+    tracker.watch(await unfunded.requestId());
+
+    const failures: RequestState[] = [];
+    tracker.on("callbackFailed", ({ to }) => failures.push(to));
+    const snapshot = await network.provider.send("evm_snapshot");
+    await fulfiller.fulfillAll();
+    await tracker.poll();
+    expect(failures.map((state) => state.status === "callbackFailed" && state.stage)).to.deep.eq(["signature"]);
+
+    // the fulfillment is reorged out, which a request cannot otherwise go back on
+    await network.provider.send("evm_revert", [snapshot]);
+    const [reorged] = await tracker.poll();
+    expect(reorged).to.deep.include({ expected: false });
+    expect(reorged.to.status).to.eq("signing");
+  });
+
+  it("keeps resolving delivered requests for reorgDepth blocks", async () => {
+    const resolver = new RequestStateResolver(stack.signatureSender, stack.randomnessSender);
+    let resolved = 0;
+    const resolve = resolver.resolve.bind(resolver);
+    resolver.resolve = (...args) => {
+      resolved++;
+      return resolve(...args);
+    };
+    tracker = new RequestStateTracker(resolver, { reorgDepth: 3 });
+    const request = await new RandomnessClient(stack.randomnessSender).requestDirectFunding(100_000);
+    tracker.watch(request.requestId);
+    const snapshot = await network.provider.send("evm_snapshot");
+    await fulfiller.fulfillAll();
+    expect((await tracker.poll()).map(({ to }) => to.status)).to.deep.eq(["delivered"]);
+
+    await mine(2);
+    resolved = 0;
+    expect(await tracker.poll()).to.deep.eq([]);
+    expect(resolved).to.eq(1);
+    // once deep enough, a delivered request is no longer resolved
+    await mine(1);
+    resolved = 0;
+    expect(await tracker.poll()).to.deep.eq([]);
+    expect(resolved).to.eq(0);
+
+    // rewinding the chain brings it back within reorgDepth
+    await network.provider.send("evm_revert", [snapshot]);
+    const [reorged] = await tracker.poll();
+    expect(reorged).to.deep.include({ expected: false });
+    expect(reorged.from!.status).to.eq("delivered");
+    expect(reorged.to.status).to.eq("signing");
+  });
+
+  it("emits nothing from a poll in which a request fails to resolve", async () => {
+    const client = new RandomnessClient(stack.randomnessSender);
+    const first = await client.requestDirectFunding(100_000);
+    const second = await client.requestDirectFunding(100_000);
+    tracker.watch(first.requestId, second.requestId);
+    const all: RequestTransition[] = [];
+    tracker.on("*", (transition) => all.push(transition));
+
+    const resolve = tracker.resolver.resolve.bind(tracker.resolver);
+    tracker.resolver.resolve = async (requestId, blockTag) => {
+      if (requestId === second.requestId) {
+        throw new Error("rpc unavailable");
+      }
+      return resolve(requestId, blockTag);
+    };
+    await expect(tracker.poll()).to.be.rejectedWith("rpc unavailable");
+    expect(all).to.be.empty;
+    expect(tracker.state(first.requestId)).to.eq(undefined);
+
+    tracker.resolver.resolve = resolve;
+    expect((await tracker.poll()).map(({ requestId }) => requestId)).to.deep.eq([first.requestId, second.requestId]);
+    expect(all).to.have.length(2);
+  });
+});
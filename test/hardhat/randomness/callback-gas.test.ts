@@ -0,0 +1,131 @@
+import {
+  MockRandomnessReceiver,
+  MockRandomnessReceiver__factory,
+  MockRevertingRandomnessReceiver__factory,
+} from "../../../typechain-types";
+import { BlsBn254 } from "../helpers/crypto";
+import { DEFAULT_FEE_CONFIG, deployRandomnessStack, RandomnessStack } from "../helpers/fixtures";
+import { LocalFulfiller } from "../helpers/fulfiller";
+import { adviseCallbackGasLimit, gasAtCallSite } from "../helpers/randomness";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { mine } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { parseEther, ZeroHash } from "ethers";
+import { ethers } from "hardhat";
+
+describe("adviseCallbackGasLimit", () => {
+  let admin: SignerWithAddress;
+  let stack: RandomnessStack;
+  let fulfiller: LocalFulfiller;
+  let consumer: MockRandomnessReceiver;
+  beforeEach(async () => {
+    [admin] = await ethers.getSigners();
+    const bls = await BlsBn254.create();
+    const { secretKey, pubKey } = bls.createKeyPair();
+    stack = await deployRandomnessStack(admin, bls, pubKey);
+    fulfiller = await LocalFulfiller.create(stack.signatureSender, bls, secretKey);
+    consumer = await new MockRandomnessReceiver__factory(admin).deploy(
+      await stack.randomnessSender.getAddress(),
+      admin.address,
+    );
+  });
+
+  async function deliver(callbackGasLimit: bigint): Promise<string> {
+    await consumer.rollDiceWithDirectFunding(callbackGasLimit, { value: parseEther("10") });
+    const requestId = await consumer.requestId();
+    await fulfiller.fulfillAll();
+    const [delivered] = await stack.randomnessSender.queryFilter(
+      stack.randomnessSender.filters.RandomnessCallbackSuccess(requestId),
+    );
+    return delivered ? "delivered" : "failed";
+  }
+
+  it("measures the exact gas the callback needs", async () => {
+    await consumer.rollDiceWithDirectFunding(100_000, { value: parseEther("10") });
+    const advice = await adviseCallbackGasLimit(stack.randomnessSender, consumer);
+    expect(advice.requestId).to.eq(await consumer.requestId());
+    expect(advice.samples).to.have.length(8);
+    expect(advice.samples.every((sample) => sample.gas !== undefined)).to.eq(true);
+    expect(advice).to.deep.include({
+      maxGasLimit: DEFAULT_FEE_CONFIG.maxGasLimit,
+      gasForCallExactCheck: DEFAULT_FEE_CONFIG.gasForCallExactCheck,
+      withinMaxGasLimit: true,
+    });
+    // storing zero randomness into an empty slot is cheaper than storing a non-zero value
+    expect(advice.samples[0].gas).to.be.lessThan(advice.maxGas);
+    expect(advice.recommendedCallbackGasLimit).to.eq((advice.maxGas * 120n + 99n) / 100n);
+
+    // the simulation leaves the state untouched
+    expect(await consumer.randomness()).to.eq(ZeroHash);
+
+    expect(await deliver(advice.maxGas - 1n)).to.eq("failed");
+    expect(await deliver(advice.maxGas)).to.eq("delivered");
+    expect(await deliver(advice.recommendedCallbackGasLimit)).to.eq("delivered");
+  });
+
+  it("leaves the RandomnessSender balance unchanged", async () => {
+    await consumer.rollDiceWithDirectFunding(100_000, { value: parseEther("10") });
+    const balance = await ethers.provider.getBalance(stack.randomnessSender);
+    expect(balance).to.eq(parseEther("10"));
+    await adviseCallbackGasLimit(stack.randomnessSender, consumer);
+    expect(await ethers.provider.getBalance(stack.randomnessSender)).to.eq(balance);
+  });
+
+  it("finds the consumer's latest request in ranges of at most batchSize blocks", async () => {
+    const fromBlock = await ethers.provider.getBlockNumber();
+    await consumer.rollDiceWithDirectFunding(100_000, { value: parseEther("10") });
+    const requestId = await consumer.requestId();
+    await mine(10);
+
+    const ranges: number[] = [];
+    const getLogs = ethers.provider.getLogs;
+    ethers.provider.getLogs = (filter) => {
+      const range = filter as { fromBlock: number; toBlock: number };
+      ranges.push(range.toBlock - range.fromBlock + 1);
+      return getLogs.call(ethers.provider, filter);
+    };
+    try {
+      const advice = await adviseCallbackGasLimit(stack.randomnessSender, consumer, { fromBlock, batchSize: 3 });
+      expect(advice.requestId).to.eq(requestId);
+    } finally {
+      ethers.provider.getLogs = getLogs;
+    }
+    expect(ranges.length).to.be.greaterThan(1);
+    expect(ranges.every((range) => range <= 3)).to.eq(true);
+  });
+
+  it("caps the recommendation at maxGasLimit", async () => {
+    const advice = await adviseCallbackGasLimit(stack.randomnessSender, consumer, {
+      requestId: 0n,
+      samples: [ZeroHash],
+      marginPercentage: 10_000n,
+    });
+    expect(advice.recommendedCallbackGasLimit).to.eq(DEFAULT_FEE_CONFIG.maxGasLimit);
+    expect(advice.gasAtCallSite).to.eq(gasAtCallSite(DEFAULT_FEE_CONFIG.maxGasLimit, 5000n));
+  });
+
+  it("reports callbacks that revert regardless of gas", async () => {
+    await expect(adviseCallbackGasLimit(stack.randomnessSender, consumer)).to.be.rejectedWith(
+      "has not requested randomness",
+    );
+    await expect(
+      adviseCallbackGasLimit(stack.randomnessSender, consumer, { requestId: 7n, samples: [ZeroHash] }),
+    ).to.be.rejectedWith("reverted for every sample: Request ID mismatch");
+
+    const reverting = await new MockRevertingRandomnessReceiver__factory(admin).deploy(
+      await stack.randomnessSender.getAddress(),
+      admin.address,
+    );
+    await reverting.rollDiceWithDirectFunding(100_000, { value: parseEther("10") });
+    const error = await adviseCallbackGasLimit(stack.randomnessSender, reverting).catch((err) => err);
+    expect(error.message).to.contain("reverted for every sample");
+  });
+
+  it("computes the gas needed at the call site", () => {
+    for (const gasLimit of [0n, 63n, 100_000n, 500_000n]) {
+      const g = gasAtCallSite(gasLimit, 5000n) - 5000n;
+      expect(g - g / 64n).to.be.greaterThan(gasLimit);
+      expect(g - 1n - (g - 1n) / 64n).to.be.at.most(gasLimit);
+    }
+  });
+});
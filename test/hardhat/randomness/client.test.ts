@@ -0,0 +1,123 @@
+import { MockRevertingRandomnessReceiver__factory } from "../../../typechain-types";
+import { BlsBn254 } from "../helpers/crypto";
+import { deployRandomnessStack, RandomnessStack } from "../helpers/fixtures";
+import { signMessageHash, sleep } from "../helpers/fulfiller";
+import { RandomnessClient } from "../helpers/randomness";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { mine } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { keccak256, parseEther, parseUnits } from "ethers";
+import { ethers } from "hardhat";
+import type { Fr, G2 } from "mcl-wasm";
+
+describe("RandomnessClient", () => {
+  let bls: BlsBn254;
+  let secretKey: Fr;
+  let pubKey: G2;
+  before(async () => {
+    bls = await BlsBn254.create();
+    ({ secretKey, pubKey } = bls.createKeyPair());
+  });
+
+  let admin: SignerWithAddress;
+  let requester: SignerWithAddress;
+  let stack: RandomnessStack;
+  let client: RandomnessClient;
+  beforeEach(async () => {
+    [admin, requester] = await ethers.getSigners();
+    stack = await deployRandomnessStack(admin, bls, pubKey);
+    client = new RandomnessClient(stack.randomnessSender.connect(requester), {
+      verification: { bls, publicKey: pubKey },
+      timeoutMs: 10_000,
+      pollingIntervalMs: 10,
+    });
+  });
+
+  async function fulfill(requestId: bigint, signingKey: Fr = secretKey) {
+    const { messageHash } = await stack.signatureSender.getRequest(requestId);
+    const signature = signMessageHash(bls, messageHash, signingKey);
+    await stack.signatureSender.fulfillSignatureRequest(requestId, signature);
+    return signature;
+  }
+
+  it("requests direct funded randomness and resolves with the verified randomness", async () => {
+    const request = await client.requestDirectFunding(100_000);
+    expect(request.requestId).to.eq(1n);
+    expect(request.nonce).to.eq(1n);
+    expect(request.requester).to.eq(requester.address);
+
+    const pending = request.wait();
+    const signature = await fulfill(request.requestId);
+    const result = await pending;
+    expect(result.signature).to.eq(signature);
+    expect(result.randomness).to.eq(keccak256(signature));
+    expect(result.verified).to.eq(true);
+  });
+
+  it("requests randomness with a subscription", async () => {
+    const randomnessSender = stack.randomnessSender.connect(requester);
+    await randomnessSender.createSubscription();
+    const [subId] = await randomnessSender.getActiveSubscriptionIds(0, 1);
+    await randomnessSender.addConsumer(subId, requester.address);
+    await randomnessSender.fundSubscriptionWithNative(subId, { value: parseEther("10") });
+
+    const request = await client.requestWithSubscription(100_000, subId);
+    expect((await stack.randomnessSender.getRequest(request.requestId)).subId).to.eq(subId);
+    await fulfill(request.requestId);
+    expect((await request.wait()).verified).to.eq(true);
+  });
+
+  it("scans each block once, in ranges of at most batchSize blocks", async () => {
+    const batched = new RandomnessClient(stack.randomnessSender.connect(requester), {
+      timeoutMs: 10_000,
+      pollingIntervalMs: 10,
+      batchSize: 3,
+    });
+    const request = await batched.requestDirectFunding(100_000);
+    const success = stack.randomnessSender.interface.getEvent("RandomnessCallbackSuccess").topicHash;
+
+    const ranges: [number, number][] = [];
+    const getLogs = ethers.provider.getLogs;
+    ethers.provider.getLogs = (filter) => {
+      const range = filter as { fromBlock: number; toBlock: number; topics: string[] };
+      if (range.topics[0] === success) {
+        ranges.push([range.fromBlock, range.toBlock]);
+      }
+      return getLogs.call(ethers.provider, filter);
+    };
+    try {
+      const pending = batched.waitForRandomness(request.requestId, request.blockNumber);
+      // blocks mined between polls
+      for (let i = 0; i < 4; i++) {
+        await mine(2);
+        await sleep(50);
+      }
+      await fulfill(request.requestId);
+      await pending;
+    } finally {
+      ethers.provider.getLogs = getLogs;
+    }
+    expect(ranges[0][0]).to.eq(request.blockNumber);
+    expect(ranges[ranges.length - 1][1]).to.eq(await ethers.provider.getBlockNumber());
+    expect(ranges.every(([from, to]) => to - from + 1 <= 3)).to.eq(true);
+    expect(ranges.slice(1).every(([from], i) => from === ranges[i][1] + 1)).to.eq(true);
+  });
+
+  it("rejects when the randomness callback fails", async () => {
+    const consumer = await new MockRevertingRandomnessReceiver__factory(requester).deploy(
+      await stack.randomnessSender.getAddress(),
+      requester.address,
+    );
+    const price = await stack.randomnessSender.estimateRequestPriceNative(100_000, parseUnits("10", "gwei"));
+    await consumer.rollDiceWithDirectFunding(100_000, { value: price, gasPrice: parseUnits("10", "gwei") });
+    const requestId = await consumer.requestId();
+
+    await fulfill(requestId);
+    await expect(client.waitForRandomness(requestId)).to.be.rejectedWith("randomness callback failed");
+  });
+
+  it("rejects when the request is not fulfilled in time", async () => {
+    const request = await client.requestDirectFunding(100_000);
+    await expect(request.wait(50)).to.be.rejectedWith("timed out waiting for randomness");
+  });
+});
@@ -0,0 +1,33 @@
+import { buildDST, buildDSTBytes } from "../helpers/randomness";
+import { toUtf8Bytes } from "ethers";
+
+const { expect } = require("chai");
+
+describe("dst", () => {
+  it("builds the BN254 DST used by RandomnessSender on hardhat", () => {
+    expect(buildDST("BN254", 31337)).to.be.equal(
+      "dcipher-randomness-v01-BN254G1_XMD:KECCAK-256_SVDW_RO_0x0000000000000000000000000000000000000000000000000000000000007a69_",
+    );
+  });
+
+  it("builds the BLS12-381 DSTs", () => {
+    const dst =
+      "dcipher-randomness-v01-BLS12381G1_XMD:SHA-256_SSWU_RO_0x0000000000000000000000000000000000000000000000000000000000014a34_";
+    expect(buildDST("BLS12381", 84532n)).to.be.equal(dst);
+    expect(buildDST("BLS12381Compressed", 84532n)).to.be.equal(dst);
+  });
+
+  it("uses the given application name", () => {
+    expect(buildDST("BN254", 1, "my-app")).to.be.equal(
+      "my-app-BN254G1_XMD:KECCAK-256_SVDW_RO_0x0000000000000000000000000000000000000000000000000000000000000001_",
+    );
+    expect(buildDSTBytes("BN254", 1, "my-app")).to.deep.equal(toUtf8Bytes(buildDST("BN254", 1, "my-app")));
+  });
+
+  it("rejects invalid inputs", () => {
+    expect(() => buildDST("BN254", 0)).to.throw("invalid chain id");
+    expect(() => buildDST("BN254", 1, "")).to.throw("application name cannot be empty");
+    expect(() => buildDST("BN254", 1, "a".repeat(200))).to.throw("DST too long");
+    expect(() => buildDST("TESS" as never, 1)).to.throw("unsupported signature scheme");
+  });
+});
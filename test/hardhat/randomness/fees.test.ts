@@ -0,0 +1,87 @@
+import { RandomnessSender, RandomnessSender__factory, UUPSProxy__factory } from "../../../typechain-types";
+import {
+  calculateRequestPriceNative,
+  estimateRequestPriceNative,
+  FeeConfig,
+  getFeeConfig,
+} from "../helpers/randomness";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { parseUnits } from "ethers";
+import { ethers } from "hardhat";
+
+describe("fees", () => {
+  const config: FeeConfig = {
+    maxGasLimit: 500_000n,
+    gasAfterPaymentCalculation: 400_000n,
+    fulfillmentFlatFeeNativePPM: 1_000_000n,
+    weiPerUnitGas: 3_000_000n,
+    blsPairingCheckOverhead: 800_000n,
+    nativePremiumPercentage: 10n,
+    gasForCallExactCheck: 5000n,
+  };
+
+  let deployer: SignerWithAddress;
+  let randomnessSender: RandomnessSender;
+  beforeEach(async () => {
+    [deployer] = await ethers.getSigners();
+    const implementation = await new RandomnessSender__factory(deployer).deploy();
+    const proxy = await new UUPSProxy__factory(deployer).deploy(await implementation.getAddress(), "0x");
+    randomnessSender = RandomnessSender__factory.connect(await proxy.getAddress(), deployer);
+    // any non-zero address will do, no signatures are requested
+    await randomnessSender.initialize(deployer.address, deployer.address);
+    await randomnessSender.setConfig(
+      config.maxGasLimit,
+      config.gasAfterPaymentCalculation,
+      config.fulfillmentFlatFeeNativePPM,
+      config.weiPerUnitGas,
+      config.blsPairingCheckOverhead,
+      config.nativePremiumPercentage,
+      config.gasForCallExactCheck,
+    );
+  });
+
+  it("breaks down the request price", () => {
+    const breakdown = calculateRequestPriceNative(config, 100_000n, 2n);
+    expect(breakdown.eip150Overhead).to.eq(1588n);
+    expect(breakdown.totalGas).to.eq(1_301_588n);
+    expect(breakdown.baseFeeWei).to.eq(2_603_176n);
+    expect(breakdown.premiumWei).to.eq(260_317n);
+    expect(breakdown.flatFeeWei).to.eq(10n ** 18n);
+    expect(breakdown.totalWei).to.eq(breakdown.baseFeeWei + breakdown.premiumWei + breakdown.flatFeeWei);
+
+    // falls back to the configured gas price
+    expect(calculateRequestPriceNative(config, 100_000n, 0n).weiPerUnitGas).to.eq(config.weiPerUnitGas);
+    expect(() => calculateRequestPriceNative(config, 500_001n, 1n)).to.throw("Callback gasLimit too high");
+  });
+
+  it("matches estimateRequestPriceNative on chain", async () => {
+    expect(await getFeeConfig(randomnessSender)).to.deep.eq(config);
+    for (const callbackGasLimit of [0n, 1n, 62n, 63n, 100_000n, 500_000n]) {
+      for (const gasPrice of [0n, 1n, parseUnits("1", "gwei"), parseUnits("250", "gwei")]) {
+        const onchain = await randomnessSender.estimateRequestPriceNative(callbackGasLimit, gasPrice);
+        expect(calculateRequestPriceNative(config, callbackGasLimit, gasPrice).totalWei).to.eq(onchain);
+      }
+    }
+  });
+
+  it("adds an L1 cost and a safety buffer", async () => {
+    const gasPriceWei = parseUnits("1", "gwei");
+    const estimate = await estimateRequestPriceNative(randomnessSender, 100_000n, {
+      gasPriceWei,
+      l1Cost: async () => 1_000_000n,
+      bufferPercentage: 20n,
+    });
+    const withoutL1 = calculateRequestPriceNative(config, 100_000n, gasPriceWei);
+    expect(estimate.l1CostWei).to.eq(1_000_000n);
+    expect(estimate.totalWei).to.eq(withoutL1.totalWei + 1_100_000n);
+    expect(estimate.recommendedWei).to.eq((estimate.totalWei * 120n) / 100n);
+  });
+
+  it("quotes enough to pay for a request at the current gas price", async () => {
+    const estimate = await estimateRequestPriceNative(randomnessSender, 100_000n);
+    const onchain = await randomnessSender.estimateRequestPriceNative(100_000n, estimate.weiPerUnitGas);
+    expect(estimate.totalWei).to.eq(onchain);
+    expect(estimate.recommendedWei).to.be.gt(onchain);
+  });
+});
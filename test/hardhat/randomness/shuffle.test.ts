@@ -0,0 +1,83 @@
+import {
+  MockFeistelShuffle,
+  MockFeistelShuffle__factory,
+  Randomness,
+  Randomness__factory,
+} from "../../../typechain-types";
+import { deshuffle, InvalidInputsError, selectArrayIndices, shuffle } from "../helpers/randomness";
+import { expect } from "chai";
+import { keccak256, MaxUint256, toBeHex, toBigInt, toUtf8Bytes } from "ethers";
+import { ethers } from "hardhat";
+
+describe("FeistelShuffleOptimised port", () => {
+  const seeds = [0n, 1n, toBigInt(keccak256(toUtf8Bytes("seed"))), MaxUint256];
+  const domains = [1n, 2n, 3n, 4n, 5n, 10n, 99n, 100n, 1000n, 2n ** 64n + 1n];
+
+  let feistel: MockFeistelShuffle;
+  let randomness: Randomness;
+  before(async () => {
+    const [deployer] = await ethers.getSigners();
+    feistel = await new MockFeistelShuffle__factory(deployer).deploy();
+    randomness = await new Randomness__factory(deployer).deploy();
+  });
+
+  it("shuffles and deshuffles like the Solidity library", async () => {
+    for (const domain of domains) {
+      for (const seed of seeds) {
+        for (const rounds of [0n, 2n, 10n]) {
+          for (const x of new Set([0n, domain / 2n, domain - 1n])) {
+            const shuffled = shuffle(x, domain, seed, rounds);
+            expect(shuffled).to.eq(await feistel.shuffle(x, domain, seed, rounds));
+            expect(deshuffle(x, domain, seed, rounds)).to.eq(await feistel.deshuffle(x, domain, seed, rounds));
+            expect(deshuffle(shuffled, domain, seed, rounds)).to.eq(x);
+          }
+        }
+      }
+    }
+  });
+
+  it("permutes the whole domain", () => {
+    const domain = 37n;
+    const seed = toBigInt(keccak256(toUtf8Bytes("permutation")));
+    const image = new Set<bigint>();
+    for (let x = 0n; x < domain; x++) {
+      image.add(shuffle(x, domain, seed, 10n));
+    }
+    expect(image.size).to.eq(Number(domain));
+  });
+
+  it("rejects the inputs the Solidity library rejects", async () => {
+    for (const [x, domain, rounds] of [
+      [0n, 0n, 10n],
+      [5n, 5n, 10n],
+      [6n, 5n, 10n],
+      [1n, 5n, 3n],
+    ]) {
+      expect(() => shuffle(x, domain, 1n, rounds)).to.throw(InvalidInputsError);
+      expect(() => deshuffle(x, domain, 1n, rounds)).to.throw(InvalidInputsError);
+      await expect(feistel.shuffle(x, domain, 1n, rounds)).to.be.revertedWithCustomError(feistel, "InvalidInputs");
+      await expect(feistel.deshuffle(x, domain, 1n, rounds)).to.be.revertedWithCustomError(feistel, "InvalidInputs");
+    }
+
+    // the next perfect square of the largest domains does not fit in a uint256
+    expect(() => shuffle(0n, MaxUint256, 1n, 2n)).to.throw("overflows");
+    await expect(feistel.shuffle(0n, MaxUint256, 1n, 2n)).to.be.revertedWithoutReason();
+  });
+
+  it("selects array indices like Randomness.selectArrayIndices", async () => {
+    const randomBytes = keccak256(toUtf8Bytes("randomness"));
+    for (const [lengthOfArray, countToDraw] of [
+      [0n, 3n],
+      [3n, 3n],
+      [3n, 5n],
+      [10n, 0n],
+      [2n, 1n],
+      [10n, 3n],
+      [1000n, 20n],
+    ]) {
+      const expected = await randomness.selectArrayIndices(lengthOfArray, countToDraw, randomBytes);
+      expect(selectArrayIndices(lengthOfArray, countToDraw, randomBytes)).to.deep.eq(expected);
+    }
+    expect(selectArrayIndices(3n, 5n, toBeHex(1n, 32))).to.deep.eq([0n, 1n, 2n, 3n, 4n]);
+  });
+});
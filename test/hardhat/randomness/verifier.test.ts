@@ -0,0 +1,100 @@
+import { BlsBn254 } from "../helpers/crypto";
+import { deployRandomnessStack, RandomnessStack } from "../helpers/fixtures";
+import { LocalFulfiller } from "../helpers/fulfiller";
+import {
+  buildDSTBytes,
+  RandomnessClient,
+  randomnessFromSignature,
+  randomnessMessageFrom,
+  verifyRandomnessRequest,
+  verifyRandomnessSignature,
+} from "../helpers/randomness";
+import { AbiCoder, getBytes, keccak256, solidityPacked } from "ethers";
+import { ethers } from "hardhat";
+import type { Fr, G2 } from "mcl-wasm";
+
+const { expect } = require("chai");
+
+describe("verifier", () => {
+  const chainId = 31337n;
+
+  it("rebuilds the RandomnessSender message from the nonce", () => {
+    expect(randomnessMessageFrom(1n)).to.be.equal(keccak256(AbiCoder.defaultAbiCoder().encode(["uint256"], [1n])));
+    expect(randomnessMessageFrom(1n)).to.be.equal("0xb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf6");
+  });
+
+  it("verifies a signature on a randomness message", async () => {
+    const bls = await BlsBn254.create();
+    const { secretKey, pubKey } = bls.createKeyPair();
+    const message = randomnessMessageFrom(42n);
+    const M = bls.hashToPoint(buildDSTBytes("BN254", chainId), getBytes(message));
+    const { signature } = bls.sign(M, secretKey);
+    const encoded = solidityPacked(["uint256", "uint256"], bls.serialiseG1Point(signature));
+
+    expect(verifyRandomnessSignature(bls, pubKey, message, encoded, chainId)).to.be.equal(true);
+    expect(randomnessFromSignature(encoded)).to.be.equal(keccak256(encoded));
+
+    // wrong chain, wrong message, wrong key or malformed signature
+    expect(verifyRandomnessSignature(bls, pubKey, message, encoded, 1n)).to.be.equal(false);
+    expect(verifyRandomnessSignature(bls, pubKey, randomnessMessageFrom(43n), encoded, chainId)).to.be.equal(false);
+    expect(verifyRandomnessSignature(bls, bls.createKeyPair().pubKey, message, encoded, chainId)).to.be.equal(false);
+    expect(verifyRandomnessSignature(bls, pubKey, message, encoded.slice(0, -2), chainId)).to.be.equal(false);
+  });
+});
+
+describe("verifyRandomnessRequest", () => {
+  let bls: BlsBn254;
+  let secretKey: Fr;
+  let pubKey: G2;
+  let stack: RandomnessStack;
+  let client: RandomnessClient;
+  let fulfiller: LocalFulfiller;
+  beforeEach(async () => {
+    const [admin] = await ethers.getSigners();
+    bls = await BlsBn254.create();
+    ({ secretKey, pubKey } = bls.createKeyPair());
+    stack = await deployRandomnessStack(admin, bls, pubKey);
+    client = new RandomnessClient(stack.randomnessSender);
+    fulfiller = await LocalFulfiller.create(stack.signatureSender, bls, secretKey);
+  });
+
+  it("verifies a fulfilled request and recomputes its randomness", async () => {
+    const request = await client.requestDirectFunding(100_000);
+    await fulfiller.fulfillAll();
+    const { randomness, signature } = await request.wait();
+
+    const verification = await verifyRandomnessRequest(stack.randomnessSender, request.requestId, {
+      bls,
+      publicKey: pubKey,
+    });
+    expect(verification).to.deep.include({
+      requestId: request.requestId,
+      nonce: request.nonce,
+      message: randomnessMessageFrom(request.nonce),
+      signature,
+      randomness,
+      valid: true,
+    });
+    expect(verification.reason).to.be.equal(undefined);
+  });
+
+  it("reports unfulfilled requests and unknown ids", async () => {
+    const request = await client.requestDirectFunding(100_000);
+    expect(
+      await verifyRandomnessRequest(stack.randomnessSender, request.requestId, { bls, publicKey: pubKey }),
+    ).to.deep.include({ randomness: null, valid: false, reason: "request not fulfilled" });
+    expect(
+      await verifyRandomnessRequest(stack.randomnessSender, request.requestId + 1n, { bls, publicKey: pubKey }),
+    ).to.deep.include({ nonce: 0n, randomness: null, valid: false, reason: "no request for request id" });
+  });
+
+  it("rejects a fulfilled request against the wrong public key", async () => {
+    const request = await client.requestDirectFunding(100_000);
+    await fulfiller.fulfillAll();
+    const { pubKey: otherKey } = bls.createKeyPair();
+
+    expect(
+      await verifyRandomnessRequest(stack.randomnessSender, request.requestId, { bls, publicKey: otherKey }),
+    ).to.deep.include({ randomness: null, valid: false, reason: "signature verification failed" });
+  });
+});
@@ -0,0 +1,106 @@
+import { SubscriptionAPI__factory } from "../../../typechain-types";
+import { BlsBn254 } from "../helpers/crypto";
+import { deployRandomnessStack, RandomnessStack } from "../helpers/fixtures";
+import { LocalFulfiller } from "../helpers/fulfiller";
+import { SubscriptionManager } from "../helpers/subscription";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { parseEther, Wallet } from "ethers";
+import { ethers } from "hardhat";
+import type { Fr, G2 } from "mcl-wasm";
+
+describe("SubscriptionManager", () => {
+  let bls: BlsBn254;
+  let secretKey: Fr;
+  let pubKey: G2;
+  before(async () => {
+    bls = await BlsBn254.create();
+    ({ secretKey, pubKey } = bls.createKeyPair());
+  });
+
+  let admin: SignerWithAddress;
+  let owner: SignerWithAddress;
+  let other: SignerWithAddress;
+  let stack: RandomnessStack;
+  let manager: SubscriptionManager;
+  beforeEach(async () => {
+    [admin, owner, other] = await ethers.getSigners();
+    stack = await deployRandomnessStack(admin, bls, pubKey);
+    manager = managerFor(owner);
+  });
+
+  function managerFor(signer: SignerWithAddress): SubscriptionManager {
+    return new SubscriptionManager(SubscriptionAPI__factory.connect(stack.randomnessSender.target as string, signer));
+  }
+
+  it("creates, funds and lists subscriptions page by page", async () => {
+    expect(await manager.activeSubscriptionIds()).to.be.empty;
+
+    const first = await manager.create(parseEther("1"));
+    expect(first).to.deep.include({ nativeBalance: parseEther("1"), reqCount: 0n, owner: owner.address });
+    expect(first.consumers).to.be.empty;
+    const second = await manager.create();
+    const third = await managerFor(other).create();
+    expect((await manager.fund(second.subId, 5n)).nativeBalance).to.eq(5n);
+
+    expect(await manager.activeSubscriptionIds(1n)).to.deep.eq([first.subId, second.subId, third.subId]);
+    expect(await manager.activeSubscriptionIds(2n)).to.deep.eq([first.subId, second.subId, third.subId]);
+    expect((await manager.list({ owner: owner.address, pageSize: 2n })).map((s) => s.subId)).to.deep.eq([
+      first.subId,
+      second.subId,
+    ]);
+    await expect(manager.get(first.subId + 1n)).to.be.rejectedWith("does not exist");
+  });
+
+  it("checks ownership and the consumer limit before changing consumers", async () => {
+    const { subId } = await manager.create();
+    await expect(managerFor(other).addConsumer(subId, other.address)).to.be.rejectedWith(
+      `owned by ${owner.address}, not ${other.address}`,
+    );
+
+    expect((await manager.addConsumer(subId, other.address)).consumers).to.deep.eq([other.address]);
+    expect((await manager.addConsumer(subId, other.address)).consumers).to.deep.eq([other.address]);
+    await expect(manager.removeConsumer(subId, admin.address)).to.be.rejectedWith("is not a consumer");
+    expect((await manager.removeConsumer(subId, other.address)).consumers).to.be.empty;
+
+    const maxConsumers = await manager.subscriptions.MAX_CONSUMERS();
+    for (let i = 0n; i < maxConsumers; i++) {
+      await manager.addConsumer(subId, Wallet.createRandom().address);
+    }
+    await expect(manager.addConsumer(subId, other.address)).to.be.rejectedWith(
+      `already has the maximum of ${maxConsumers} consumers`,
+    );
+  });
+
+  it("refuses to cancel or remove consumers while a request is pending", async () => {
+    const { subId } = await manager.create(parseEther("10"));
+    await manager.addConsumer(subId, other.address);
+    await stack.randomnessSender.connect(other).requestRandomnessWithSubscription(100_000, subId);
+
+    await expect(manager.removeConsumer(subId, other.address)).to.be.rejectedWith("has pending requests");
+    await expect(manager.cancel(subId)).to.be.rejectedWith("has pending requests");
+
+    const fulfiller = await LocalFulfiller.create(stack.signatureSender, bls, secretKey, { fromBlock: 0 });
+    await fulfiller.fulfillAll();
+    const before = await manager.get(subId);
+    expect(before.pendingRequestExists).to.eq(false);
+    expect(before.reqCount).to.eq(1n);
+
+    const balance = await ethers.provider.getBalance(admin.address);
+    expect(await manager.cancel(subId, admin.address)).to.deep.eq(before);
+    expect(await ethers.provider.getBalance(admin.address)).to.eq(balance + before.nativeBalance);
+    expect(await manager.activeSubscriptionIds()).to.be.empty;
+  });
+
+  it("transfers ownership in two steps", async () => {
+    const { subId } = await manager.create();
+    await expect(managerFor(other).requestOwnerTransfer(subId, other.address)).to.be.rejectedWith("owned by");
+
+    await manager.requestOwnerTransfer(subId, other.address);
+    await expect(managerFor(admin).acceptOwnerTransfer(subId)).to.be.rejectedWith(
+      `${admin.address} is not the requested owner`,
+    );
+    expect((await managerFor(other).acceptOwnerTransfer(subId)).owner).to.eq(other.address);
+    await expect(manager.addConsumer(subId, owner.address)).to.be.rejectedWith("owned by");
+  });
+});